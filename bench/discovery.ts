@@ -0,0 +1,105 @@
+/**
+ * Benchmark for the repository scanner on a generated tree:
+ *
+ *   yarn bench:discovery --dirs 20000 [--keep]
+ *
+ * Times a sequential and a parallel full scan, an incremental scan of the unchanged tree
+ * and one after a repository was cloned, so changes to the scanner can be compared.
+ */
+import { mkdirSync, mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join, relative, sep } from 'path';
+import { performance } from 'perf_hooks';
+import { scanGitRepositories } from '../src/discovery/scanner.js';
+import type { DirectoryIndex } from '../src/types/index.js';
+
+const GROUPS = 20;
+const TEAMS_PER_GROUP = 10;
+// Every REPO_EVERY-th project is a repository, the rest are plain folders with subfolders
+const REPO_EVERY = 4;
+
+const readFlag = (name: string, fallback: number): number => {
+  const index = process.argv.indexOf(`--${name}`);
+  const value = index === -1 ? NaN : Number(process.argv[index + 1]);
+  return Number.isInteger(value) && value > 0 ? value : fallback;
+};
+
+/**
+ * Create group-N/team-N/project-N folders until about `targetDirs` directories exist:
+ * repositories (with a .git folder), plain projects with src/lib subfolders and
+ * node_modules trees that the default ignore rules skip
+ */
+function generateFixture(root: string, targetDirs: number): { dirs: number; repos: number } {
+  let dirs = 0;
+  let repos = 0;
+  const make = (path: string) => {
+    // Returns the first directory it had to create, if any
+    const created = mkdirSync(path, { recursive: true });
+    if (created) dirs += relative(created, path).split(sep).filter(Boolean).length + 1;
+  };
+
+  for (let project = 0; dirs < targetDirs; project++) {
+    const group = `group-${project % GROUPS}`;
+    const team = `team-${Math.floor(project / GROUPS) % TEAMS_PER_GROUP}`;
+    const projectDir = join(root, group, team, `project-${project}`);
+
+    if (project % REPO_EVERY === 0) {
+      make(join(projectDir, '.git'));
+      make(join(projectDir, 'src'));
+      repos++;
+    } else {
+      make(join(projectDir, 'src', 'lib'));
+      make(join(projectDir, 'node_modules', 'dependency', 'dist'));
+    }
+  }
+
+  return { dirs, repos };
+}
+
+const time = async <T>(label: string, run: () => Promise<T>): Promise<T> => {
+  const startedAt = performance.now();
+  const result = await run();
+  console.log(`${label.padEnd(34)} ${(performance.now() - startedAt).toFixed(1).padStart(9)} ms`);
+  return result;
+};
+
+async function main(): Promise<void> {
+  const targetDirs = readFlag('dirs', 5000);
+  const root = mkdtempSync(join(tmpdir(), 'ai-summon-bench-'));
+
+  try {
+    const fixture = generateFixture(root, targetDirs);
+    console.log(`Fixture: ${root} (${fixture.dirs} directories, ${fixture.repos} repositories)\n`);
+
+    await time('full scan, 1 directory at a time', () =>
+      scanGitRepositories(root, {}, { concurrency: 1 })
+    );
+    const full = await time('full scan, parallel', () => scanGitRepositories(root));
+
+    let index: DirectoryIndex = full.dirs;
+    const unchanged = await time('incremental scan, no changes', () =>
+      scanGitRepositories(root, {}, { previous: index })
+    );
+    index = unchanged.dirs;
+
+    mkdirSync(join(root, 'group-0', 'team-0', 'cloned', '.git'), { recursive: true });
+    const changed = await time('incremental scan, 1 new repository', () =>
+      scanGitRepositories(root, {}, { previous: index })
+    );
+
+    const found = changed.repos.length - full.repos.length;
+    console.log(`\nRepositories: ${full.repos.length} found, ${found} new after the clone`);
+    if (full.repos.length !== fixture.repos || found !== 1) {
+      process.exitCode = 1;
+      console.error('Scanner results do not match the fixture');
+    }
+  } finally {
+    if (process.argv.includes('--keep')) {
+      console.log(`Kept ${root}`);
+    } else {
+      rmSync(root, { recursive: true, force: true });
+    }
+  }
+}
+
+await main();
@@ -1,9 +1,43 @@
 #!/usr/bin/env node
 import { Command } from 'commander';
-import { getPackageJson } from './util.js';
+import { getPackageJson, setConfigPathOverride } from './util.js';
 import { openIDE, refreshIdeReposCache } from './commands/ide/index.js';
 import { addUrl, openUrlGroup, removeUrl, searchAndOpenUrl } from './commands/url.js';
 import { initConfig } from './commands/init.js';
+import {
+  configEdit,
+  configGet,
+  configHistory,
+  configSet,
+  configShow,
+  configUndo,
+  configUnset,
+} from './commands/config/index.js';
+import { configSyncInit, configSyncPull, configSyncPush } from './commands/config/sync.js';
+import { runDoctor } from './commands/doctor.js';
+import { cloudLogin } from './commands/cloud/index.js';
+import { cloudScp } from './commands/cloud/scp.js';
+import { cloudSync } from './commands/cloud/sync.js';
+import { cloudExec } from './commands/cloud/exec.js';
+import { cloudTunnel, listTunnels, stopTunnels } from './commands/cloud/tunnel.js';
+import { cloudLogs } from './commands/cloud/logs.js';
+import { cloudStatus } from './commands/cloud/status.js';
+import { cloudSshConfig } from './commands/cloud/ssh-config.js';
+import { cloudImport } from './commands/cloud/import.js';
+import { cloudAudit } from './commands/cloud/audit.js';
+import type {
+  CloudAuditOptions,
+  CloudExecOptions,
+  CloudImportOptions,
+  CloudLoginOptions,
+  CloudLogsOptions,
+  CloudSshConfigOptions,
+  CloudStatusOptions,
+  CloudSyncOptions,
+  CloudTunnelOptions,
+  DoctorOptions,
+  ScpOptions,
+} from './types/index.js';
 
 const packageJson = getPackageJson();
 
@@ -11,40 +45,146 @@ const program = new Command();
 
 program.usage('<command> [options]');
 program.version(packageJson.version);
+program.option('--config <path>', 'use this config file instead of ~/.ai/config.json ($AI_CONFIG)');
+program.hook('preAction', (thisCommand) => {
+  setConfigPathOverride(thisCommand.opts<{ config?: string }>().config);
+});
 
 program
   .command('init')
-  .description('initialize ~/.ai/config.json (prompts for workingDirectory)')
+  .description('initialize ~/.ai/config.json (merges an existing or legacy ~/.hsh config)')
   .option('-w, --working-directory <path>', 'set workingDirectory without prompting')
-  .option('-f, --force', 'overwrite existing config without confirmation')
-  .action(async (options: { workingDirectory?: string; force?: boolean }) => {
-    await initConfig({ workingDirectory: options.workingDirectory, force: options.force });
+  .option('-f, --force', 'merge existing config without confirmation')
+  .option('--from <file>', 'import a config file without prompting (for provisioning)')
+  .action(async (options: { workingDirectory?: string; force?: boolean; from?: string }) => {
+    await initConfig(options);
+  });
+
+const configCommand = program.command('config').description('Manage ~/.ai/config.json');
+
+configCommand
+  .command('show')
+  .description('Print the effective config (included files merged underneath yours)')
+  .option('--origin', 'Show which file each value comes from')
+  .option('--redact', 'Hide secrets such as private key paths')
+  .action(async (options: { origin?: boolean; redact?: boolean }) => {
+    await configShow(options);
+  });
+
+configCommand
+  .command('get')
+  .description('Print a config value, e.g. yiren.todo-mini.prod.ip or urls["github.com"]')
+  .argument('<path>', 'Dotted path')
+  .action(async (path: string) => {
+    await configGet(path);
+  });
+
+configCommand
+  .command('set')
+  .description('Set a config value (JSON values such as 22, true or [..] are parsed)')
+  .argument('<path>', 'Dotted path')
+  .argument('<value>', 'New value')
+  .action(async (path: string, value: string) => {
+    await configSet(path, value);
+  });
+
+configCommand
+  .command('unset')
+  .description('Remove a config value')
+  .argument('<path>', 'Dotted path')
+  .action(async (path: string) => {
+    await configUnset(path);
+  });
+
+configCommand
+  .command('edit')
+  .description('Edit the config in $EDITOR; invalid changes are not saved')
+  .action(async () => {
+    await configEdit();
+  });
+
+configCommand
+  .command('history')
+  .description('List recent config changes (newest first)')
+  .action(async () => {
+    await configHistory();
+  });
+
+configCommand
+  .command('undo')
+  .description('Restore the config as it was before the newest n changes')
+  .argument('[n]', 'Number of changes to revert', '1')
+  .option('-y, --yes', 'Restore without confirmation')
+  .action(async (steps: string, options: { yes?: boolean }) => {
+    await configUndo(steps, options);
+  });
+
+const configSyncCommand = configCommand
+  .command('sync')
+  .description('Keep the config in a git repository shared between machines');
+configSyncCommand
+  .command('init')
+  .description('Clone the sync repository and merge it with the local config')
+  .argument('<remote>', 'Git remote URL or path (e.g. a bare repository)')
+  .option('-f, --force', 'Replace an existing sync checkout')
+  .action(async (remote: string, options: { force?: boolean }) => {
+    await configSyncInit(remote, options);
+  });
+configSyncCommand
+  .command('pull')
+  .description('Merge config changes from the sync repository')
+  .action(async () => {
+    await configSyncPull();
+  });
+configSyncCommand
+  .command('push')
+  .description('Merge remote changes, then push the local config to the sync repository')
+  .action(async () => {
+    await configSyncPush();
+  });
+
+program
+  .command('doctor')
+  .description('Check the config, repository cache, IDE/browser commands and SSH keys')
+  .option('--json', 'Output the checks as JSON')
+  .action(async (options: DoctorOptions) => {
+    await runDoctor(options);
   });
 
 const cursor = program.command('cursor').description('open project in Cursor');
 cursor
   .argument('[search]', 'optional search keyword for fuzzy search')
-  .action(async (search?: string) => {
-    await openIDE('cursor', search);
+  .option('-w, --worktree', 'choose or create a git worktree of the selected project')
+  .option('--sort <order>', 'list order: name or recent (most recently committed first)')
+  .action(async (search: string | undefined, options: { worktree?: boolean; sort?: string }) => {
+    await openIDE('cursor', search, options);
   });
 cursor
   .command('refresh')
   .description('refresh cached auto-discovered repositories (workingDirectory mode)')
-  .action(async () => {
-    await refreshIdeReposCache();
+  .argument('[root]', 'only rescan the working directory with this label or path')
+  .option('-v, --verbose', 'list skipped and unreadable directories')
+  .option('--full', 're-read every directory instead of only changed ones')
+  .action(async (root: string | undefined, options: { verbose?: boolean; full?: boolean }) => {
+    await refreshIdeReposCache(root, options);
   });
 
 const claude = program.command('claude').description('open project in Claude');
 claude
   .argument('[search]', 'optional search keyword for fuzzy search')
-  .action(async (search?: string) => {
-    await openIDE('claude', search);
+  .option('-w, --worktree', 'choose or create a git worktree of the selected project')
+  .option('--sort <order>', 'list order: name or recent (most recently committed first)')
+  .action(async (search: string | undefined, options: { worktree?: boolean; sort?: string }) => {
+    await openIDE('claude', search, options);
   });
 claude
   .command('refresh')
   .description('refresh cached auto-discovered repositories (workingDirectory mode)')
-  .action(async () => {
-    await refreshIdeReposCache();
+  .argument('[root]', 'only rescan the working directory with this label or path')
+  .option('-v, --verbose', 'list skipped and unreadable directories')
+  .option('--full', 're-read every directory instead of only changed ones')
+  .action(async (root: string | undefined, options: { verbose?: boolean; full?: boolean }) => {
+    await refreshIdeReposCache(root, options);
   });
 
 // URL management commands
@@ -85,4 +225,172 @@ urlCommand
     await openUrlGroup();
   });
 
+// Cloud infrastructure commands
+const cloudCommand = program.command('cloud').description('Cloud infrastructure management');
+
+cloudCommand
+  .command('login')
+  .description('SSH into a cloud instance configured under yiren in ~/.ai/config.json')
+  .option('--env <environment>', 'Environment name (e.g., dev, staging, prod)')
+  .option('--service <service>', 'Service name (e.g., todo-mini, wuhan-mall)')
+  .option('--yes-prod', 'Skip the typed confirmation for production')
+  .action(async (options: CloudLoginOptions) => {
+    await cloudLogin(options);
+  });
+
+cloudCommand
+  .command('scp')
+  .description(
+    'Copy files to or from a cloud instance (prefix the source with "remote:" to download)'
+  )
+  .argument('<source>', 'Local path, or remote:<path> to download from the server')
+  .argument('<destination>', 'Remote path for uploads, or local path for downloads')
+  .option('-r, --recursive', 'Copy directories recursively')
+  .option('--env <environment>', 'Environment name (e.g., dev, staging, prod)')
+  .option('--service <service>', 'Service name (e.g., todo-mini, wuhan-mall)')
+  .option('--yes-prod', 'Skip the typed confirmation for production')
+  .action(async (source: string, destination: string, options: ScpOptions) => {
+    await cloudScp(source, destination, options);
+  });
+
+cloudCommand
+  .command('sync')
+  .description('Upload files changed since the last sync of a local directory to a cloud instance')
+  .argument('<localDir>', 'Local directory to sync')
+  .argument('[remoteDir]', 'Directory on the host (default: the local directory name under ~)')
+  .option('--env <environment>', 'Environment name (e.g., dev, staging, prod)')
+  .option('--service <service>', 'Service name (e.g., todo-mini, wuhan-mall)')
+  .option('-w, --watch', 'Keep watching and re-sync on local changes')
+  .option('--delete', 'Delete remote files from earlier syncs that no longer exist locally')
+  .option(
+    '--exclude <names>',
+    'Comma-separated file/directory names to skip (added to .git, node_modules)'
+  )
+  .option('--force', 'Ignore the last sync manifest and upload every file')
+  .option('--dry-run', 'Only show what would be uploaded or deleted')
+  .option('--debounce <ms>', 'Delay after the last change before re-syncing in watch mode', '500')
+  .option('-y, --yes', 'Delete remote files without asking')
+  .option('--yes-prod', 'Skip the typed confirmation for production')
+  .action(async (localDir: string, remoteDir: string | undefined, options: CloudSyncOptions) => {
+    await cloudSync(localDir, remoteDir, options);
+  });
+
+cloudCommand
+  .command('exec')
+  .description('Run a command over SSH on several cloud instances concurrently')
+  .argument('<command...>', 'Remote command (put it after "--")')
+  .option('--env <environments>', 'Comma-separated environments (e.g., staging,prod)')
+  .option('--service <services>', 'Comma-separated service names')
+  .option('--all', 'Target every configured service (and environment unless --env is set)')
+  .option('-c, --concurrency <n>', 'Maximum number of hosts to run on at once', '5')
+  .option('--yes-prod', 'Skip the typed confirmation for production')
+  .action(async (command: string[], options: CloudExecOptions) => {
+    await cloudExec(command, options);
+  });
+
+const tunnelCommand = cloudCommand
+  .command('tunnel')
+  .description('Forward a local port to a port on a cloud instance over SSH');
+tunnelCommand
+  .argument('[preset]', 'Tunnel preset name from yiren.<service>.tunnels')
+  .option('--env <environment>', 'Environment name (e.g., dev, staging, prod)')
+  .option('--service <service>', 'Service name (e.g., todo-mini, wuhan-mall)')
+  .option('--local <port>', 'Local port (defaults to the remote port)')
+  .option('--remote <port>', 'Port on the remote side')
+  .option('--remote-host <host>', 'Host to reach from the instance (default: localhost)')
+  .option('-b, --background', 'Run the tunnel in the background')
+  .option('--yes-prod', 'Skip the typed confirmation for production')
+  .action(async (preset: string | undefined, options: CloudTunnelOptions) => {
+    await cloudTunnel(preset, options);
+  });
+tunnelCommand
+  .command('list')
+  .description('List tunnels running in the background')
+  .action(async () => {
+    await listTunnels();
+  });
+tunnelCommand
+  .command('stop')
+  .description('Stop background tunnels (by id, local port or preset name)')
+  .argument('[tunnel]', 'Tunnel to stop (prompts when omitted)')
+  .option('--all', 'Stop every background tunnel')
+  .action(async (tunnel: string | undefined, options: { all?: boolean }) => {
+    await stopTunnels(tunnel, options);
+  });
+
+cloudCommand
+  .command('logs')
+  .description('Tail a log source declared under yiren.<service>.logs')
+  .argument('[source]', 'Log source name (prompts when several are declared)')
+  .option('--env <environments>', 'Comma-separated environments (e.g., staging,prod)')
+  .option('--service <services>', 'Comma-separated service names')
+  .option('--all', 'Target every configured service (and environment unless --env is set)')
+  .option('-f, --follow', 'Keep streaming new lines')
+  .option('--since <time>', 'Only show entries since a duration (10m, 2h, 1d) or timestamp')
+  .option('--grep <pattern>', 'Only show lines matching a regular expression')
+  .option('-n, --lines <n>', 'Number of recent lines to show', '100')
+  .option('--yes-prod', 'Skip the typed confirmation for production')
+  .action(async (source: string | undefined, options: CloudLogsOptions) => {
+    await cloudLogs(source, options);
+  });
+
+cloudCommand
+  .command('status')
+  .description('Check reachability of every configured cloud instance')
+  .option('--env <environments>', 'Comma-separated environments (default: all)')
+  .option('--service <services>', 'Comma-separated service names (default: all)')
+  .option('-t, --timeout <ms>', 'Connect timeout per host in milliseconds', '3000')
+  .option('--ssh', 'Also perform an SSH handshake (checks the key is accepted)')
+  .option('--json', 'Print results as JSON')
+  .action(async (options: CloudStatusOptions) => {
+    await cloudStatus(options);
+  });
+
+cloudCommand
+  .command('ssh-config')
+  .description('Export configured cloud instances as OpenSSH "Host <service>-<env>" blocks')
+  .option('--env <environments>', 'Comma-separated environments (default: all)')
+  .option('--service <services>', 'Comma-separated service names (default: all)')
+  .option(
+    '--write [file]',
+    'Maintain a managed section in an ssh config file (default: ~/.ssh/config)'
+  )
+  .option(
+    '--include [file]',
+    'Write a dedicated file (default: ~/.ssh/ai-summon.config) and Include it from ~/.ssh/config'
+  )
+  .action(async (options: CloudSshConfigOptions) => {
+    await cloudSshConfig(options);
+  });
+
+cloudCommand
+  .command('import')
+  .description('Import hosts from an OpenSSH config or `terraform output -json` file into yiren')
+  .argument('<file>', 'Path to an ssh config or terraform output JSON file')
+  .option('--format <format>', 'Input format: ssh or terraform (auto-detected by default)')
+  .option(
+    '--pattern <regex>',
+    'Map host names without prompting, e.g. "^(?<service>.+)-(?<env>[^-]+)$"'
+  )
+  .option('--key <file>', 'privateKeyFile for hosts that do not specify one')
+  .option('-y, --yes', 'Apply the changes without confirmation')
+  .option('--dry-run', 'Only show the changes')
+  .action(async (file: string, options: CloudImportOptions) => {
+    await cloudImport(file, options);
+  });
+
+cloudCommand
+  .command('audit')
+  .description('Show the audit log of cloud logins, transfers and remote commands')
+  .option('--service <services>', 'Comma-separated service names')
+  .option('--env <environments>', 'Comma-separated environments')
+  .option('--action <actions>', 'Comma-separated actions (login, scp, sync, exec, tunnel, logs)')
+  .option('--since <time>', 'Only entries since a date (2025-01-31) or duration (7d, 12h, 30m)')
+  .option('--until <time>', 'Only entries until a date or duration ago')
+  .option('-n, --limit <n>', 'Show at most the last n entries', '50')
+  .option('--json', 'Print entries as JSON')
+  .action(async (options: CloudAuditOptions) => {
+    await cloudAudit(options);
+  });
+
 program.parse();
@@ -0,0 +1,130 @@
+import chalk from 'chalk';
+import { appendFileSync, existsSync, readFileSync } from 'fs';
+import { userInfo } from 'os';
+import { join } from 'path';
+import { ensureAiDir } from '../../util.js';
+import { isProductionEnvironment, splitList } from './index.js';
+import type { AuditAction, AuditEntry, CloudAuditOptions } from '../../types/index.js';
+
+const DEFAULT_LIMIT = 50;
+
+// "7d", "12h", "30m" relative to now
+const RELATIVE_TIME_PATTERN = /^(\d+)([mhd])$/;
+const UNIT_MS: Record<string, number> = { m: 60_000, h: 3_600_000, d: 86_400_000 };
+
+const getAuditLogPath = (): string => join(ensureAiDir(), 'audit.jsonl');
+
+const getCurrentUser = (): string => {
+  try {
+    return userInfo().username;
+  } catch {
+    return process.env.USER ?? 'unknown';
+  }
+};
+
+/**
+ * Append one cloud operation to the local audit log. Failures to write are reported
+ * but never block the operation itself.
+ */
+export function appendAuditEntry(entry: {
+  action: AuditAction;
+  service: string;
+  environment: string;
+  host: string;
+  command: string;
+}): void {
+  const line: AuditEntry = {
+    timestamp: new Date().toISOString(),
+    user: getCurrentUser(),
+    action: entry.action,
+    service: entry.service,
+    env: entry.environment,
+    host: entry.host,
+    command: entry.command,
+  };
+
+  try {
+    appendFileSync(getAuditLogPath(), JSON.stringify(line) + '\n', {
+      encoding: 'utf-8',
+      mode: 0o600,
+    });
+  } catch (error) {
+    console.error(chalk.yellow('⚠️  Could not write audit log:'), error);
+  }
+}
+
+export const readAuditLog = (): AuditEntry[] => {
+  const logPath = getAuditLogPath();
+  if (!existsSync(logPath)) return [];
+
+  return readFileSync(logPath, 'utf-8')
+    .split('\n')
+    .filter(Boolean)
+    .flatMap((line) => {
+      try {
+        return [JSON.parse(line) as AuditEntry];
+      } catch {
+        return []; // Skip a torn or hand-edited line rather than failing the whole query
+      }
+    });
+};
+
+const parseTime = (value: string, flag: string): number => {
+  const relative = value.match(RELATIVE_TIME_PATTERN);
+  if (relative) {
+    return Date.now() - Number(relative[1]) * UNIT_MS[relative[2]];
+  }
+  const time = Date.parse(value);
+  if (Number.isNaN(time)) {
+    throw new Error(`Invalid ${flag} value: ${value} (use a date like 2025-01-31 or 7d, 12h, 30m)`);
+  }
+  return time;
+};
+
+/**
+ * Query the audit log by service, environment, action and date range
+ */
+export async function cloudAudit(options: CloudAuditOptions): Promise<void> {
+  try {
+    const services = splitList(options.service);
+    const environments = splitList(options.env);
+    const actions = splitList(options.action);
+    const since = options.since ? parseTime(options.since, '--since') : undefined;
+    const until = options.until ? parseTime(options.until, '--until') : undefined;
+    const limit = options.limit ? Number(options.limit) : DEFAULT_LIMIT;
+    if (!Number.isInteger(limit) || limit < 1) {
+      throw new Error(`Invalid --limit value: ${options.limit}`);
+    }
+
+    const entries = readAuditLog()
+      .filter((entry) => services.length === 0 || services.includes(entry.service))
+      .filter((entry) => environments.length === 0 || environments.includes(entry.env))
+      .filter((entry) => actions.length === 0 || actions.includes(entry.action))
+      .filter((entry) => {
+        const time = Date.parse(entry.timestamp);
+        return (since === undefined || time >= since) && (until === undefined || time <= until);
+      })
+      .slice(-limit);
+
+    if (options.json) {
+      console.log(JSON.stringify(entries, null, 2));
+      return;
+    }
+
+    if (entries.length === 0) {
+      console.log(chalk.yellow('No matching audit entries.'));
+      return;
+    }
+
+    for (const entry of entries) {
+      const env = isProductionEnvironment(entry.env) ? chalk.red(entry.env) : entry.env;
+      console.log(
+        `${chalk.gray(entry.timestamp)}  ${entry.user}  ${chalk.cyan(entry.action.padEnd(6))}  ` +
+          `${entry.service}/${env}  ${chalk.gray(entry.host)}  ${entry.command}`
+      );
+    }
+  } catch (error) {
+    console.error(chalk.red(`❌ ${error instanceof Error ? error.message : String(error)}`));
+    process.exitCode = 1;
+  }
+}
@@ -0,0 +1,157 @@
+import chalk from 'chalk';
+import { $ } from 'zx';
+import {
+  confirmProductionAccess,
+  createHostPrefixer,
+  forEachLine,
+  formatTargetLabel,
+  handleSSHError,
+  printCloudError,
+  resolveCloudTargets,
+  shellQuote,
+  sshDestination,
+  sshOptions,
+  validatePrivateKey,
+  type CloudTarget,
+} from './index.js';
+import { appendAuditEntry } from './audit.js';
+import { mapWithConcurrency } from '../../util.js';
+import type { CloudExecOptions, CloudExecResult } from '../../types/index.js';
+
+const DEFAULT_CONCURRENCY = 5;
+
+async function runOnTarget(
+  target: CloudTarget,
+  remoteCommand: string,
+  prefix: string
+): Promise<CloudExecResult> {
+  const startedAt = Date.now();
+  const result = {
+    service: target.service,
+    environment: target.environment,
+    host: target.cloudConfig.ip,
+  };
+
+  try {
+    const keyPath = validatePrivateKey(target.cloudConfig.privateKeyFile);
+    appendAuditEntry({
+      action: 'exec',
+      service: target.service,
+      environment: target.environment,
+      host: sshDestination(target.cloudConfig),
+      command: remoteCommand,
+    });
+
+    // -n: never read local stdin, several sessions run side by side
+    // BatchMode: fail instead of prompting for a password
+    const session =
+      $`ssh -n ${sshOptions(target.cloudConfig, keyPath)} -o BatchMode=yes ${sshDestination(target.cloudConfig)} ${remoteCommand}`
+        .quiet()
+        .nothrow();
+
+    forEachLine(session.stdout, (line) => console.log(`${prefix} ${line}`));
+    forEachLine(session.stderr, (line) => console.error(`${prefix} ${chalk.red(line)}`));
+
+    const output = await session;
+
+    // 255 is ssh's own failure code; anything else is the remote command's exit status
+    if (output.exitCode === 255) {
+      const error = handleSSHError(output, target);
+      return { ...result, exitCode: 255, durationMs: Date.now() - startedAt, error: error.message };
+    }
+
+    return { ...result, exitCode: output.exitCode, durationMs: Date.now() - startedAt };
+  } catch (error) {
+    return {
+      ...result,
+      exitCode: null,
+      durationMs: Date.now() - startedAt,
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+}
+
+function printSummary(results: CloudExecResult[]): void {
+  const rows = results.map((result) => ({
+    target: `${result.service}/${result.environment}`,
+    host: result.host,
+    exit: result.exitCode === null ? '-' : String(result.exitCode),
+    duration: `${(result.durationMs / 1000).toFixed(1)}s`,
+    ok: result.exitCode === 0,
+    note: result.error ?? '',
+  }));
+
+  const headers = { target: 'TARGET', host: 'HOST', exit: 'EXIT', duration: 'TIME' };
+  const width = (key: keyof typeof headers) =>
+    Math.max(headers[key].length, ...rows.map((row) => row[key].length));
+  const columns = (['target', 'host', 'exit', 'duration'] as const).map((key) => ({
+    key,
+    width: width(key),
+  }));
+
+  console.log('');
+  console.log(chalk.bold(columns.map((c) => headers[c.key].padEnd(c.width)).join('  ')));
+  for (const row of rows) {
+    const line = columns.map((c) => row[c.key].padEnd(c.width)).join('  ');
+    const note = row.note ? `  ${row.note}` : '';
+    console.log(row.ok ? chalk.green(line) : chalk.red(line + note));
+  }
+
+  const failed = rows.filter((row) => !row.ok).length;
+  console.log('');
+  if (failed === 0) {
+    console.log(chalk.green(`✅ Command succeeded on all ${rows.length} host(s)`));
+  } else {
+    console.log(chalk.red(`❌ Command failed on ${failed} of ${rows.length} host(s)`));
+  }
+}
+
+/**
+ * The remote shell command for the words after `--`. One word is a shell snippet and
+ * passed as is (e.g. `"ps aux | grep node"`); several words are quoted one by one, so
+ * `grep "two words" file` keeps the quoting the local shell applied.
+ */
+export const buildRemoteCommand = (command: string[]): string =>
+  command.length === 1 ? command[0].trim() : command.map(shellQuote).join(' ');
+
+/**
+ * Run one command over SSH on every matching host concurrently
+ */
+export async function cloudExec(command: string[], options: CloudExecOptions): Promise<void> {
+  try {
+    const remoteCommand = buildRemoteCommand(command);
+    if (!remoteCommand) {
+      throw new Error('No command given; pass it after "--", e.g. ai cloud exec --all -- uptime');
+    }
+
+    const concurrency = options.concurrency ? Number(options.concurrency) : DEFAULT_CONCURRENCY;
+    if (!Number.isInteger(concurrency) || concurrency < 1) {
+      throw new Error(`Invalid --concurrency value: ${options.concurrency}`);
+    }
+
+    const targets = await resolveCloudTargets(options);
+    if (!(await confirmProductionAccess(targets, options.yesProd))) {
+      console.log(chalk.yellow('⏸️  Production operation cancelled.'));
+      return;
+    }
+    const prefixer = createHostPrefixer(targets);
+
+    console.log(
+      chalk.blue(
+        `🚀 Running "${remoteCommand}" on ${targets.length} host(s): ${targets.map(formatTargetLabel).join(', ')}`
+      )
+    );
+
+    const results = await mapWithConcurrency(targets, concurrency, (target) =>
+      runOnTarget(target, remoteCommand, prefixer(target))
+    );
+
+    printSummary(results);
+    if (results.some((result) => result.exitCode !== 0)) {
+      process.exitCode = 1;
+    }
+  } catch (error) {
+    printCloudError(error);
+    process.exitCode = 1;
+  }
+}
@@ -0,0 +1,318 @@
+import inquirer from 'inquirer';
+import chalk from 'chalk';
+import { existsSync, readFileSync } from 'fs';
+import { expandHome, readConfig, updateConfig } from '../../util.js';
+import { getCloudConfig, printCloudError } from './index.js';
+import { isValidPort, validateConfig } from '../../config/schema.js';
+import type {
+  CloudConfig,
+  CloudImportOptions,
+  Environment,
+  ImportedHost,
+  YirenConfig,
+} from '../../types/index.js';
+
+// Used to guess a mapping when no --pattern is given, e.g. "todo-mini-prod" or "todo_mini.staging"
+const DEFAULT_PATTERN =
+  /^(?<service>.+?)[-_.](?<env>dev|develop|test|qa|uat|staging|stage|preprod|prod|production|prd)$/i;
+
+// Spellings in host names mapped to the usual environment names, so e.g. `web-production`
+// lands in `prod` next to the other services' prod hosts
+const ENV_ALIASES: Record<string, Environment> = {
+  production: 'prod',
+  prd: 'prod',
+  stage: 'staging',
+  develop: 'dev',
+};
+
+// Names that would replace an object's prototype or shadow its methods rather than add a key
+const RESERVED_NAMES = new Set(['__proto__', 'constructor', 'prototype']);
+
+// Service and environment names come from host aliases and terraform output keys
+const isValidName = (name: string): boolean => /^[^/\s]+$/.test(name) && !RESERVED_NAMES.has(name);
+
+const HOST_VALUE_PATTERN = /^(\d{1,3}(\.\d{1,3}){3}|[a-z0-9-]+(\.[a-z0-9-]+)+)$/i;
+
+/**
+ * Parse `Host` blocks from an OpenSSH config file. Wildcard patterns are skipped;
+ * a Host line with several aliases yields one entry per alias. Hosts with an invalid
+ * `Port` are skipped with a warning.
+ */
+export function parseSshConfig(content: string): ImportedHost[] {
+  const hosts: ImportedHost[] = [];
+  const invalidPorts = new Map<ImportedHost, string>();
+  let current: ImportedHost[] = [];
+
+  const setPort = (host: ImportedHost, value: string): void => {
+    const port = /^\d+$/.test(value) ? Number(value) : NaN;
+    if (isValidPort(port)) host.cloudConfig.port = port;
+    else invalidPorts.set(host, value);
+  };
+
+  for (const rawLine of content.split('\n')) {
+    const line = rawLine.trim();
+    if (!line || line.startsWith('#')) continue;
+
+    const match = line.match(/^(\S+)\s*=?\s*(.*)$/);
+    if (!match) continue;
+    const keyword = match[1].toLowerCase();
+    const value = match[2].replace(/^"(.*)"$/, '$1');
+
+    if (keyword === 'host') {
+      current = value
+        .split(/\s+/)
+        .filter((alias) => alias && !/[*?!]/.test(alias))
+        .map((alias) => ({ name: alias, cloudConfig: { ip: alias } }));
+      hosts.push(...current);
+      continue;
+    }
+    if (keyword === 'match') {
+      current = [];
+      continue;
+    }
+
+    for (const host of current) {
+      const config = host.cloudConfig;
+      if (keyword === 'hostname') config.ip = value;
+      else if (keyword === 'user') config.user = value;
+      else if (keyword === 'port') setPort(host, value);
+      else if (keyword === 'identityfile' && !config.privateKeyFile) config.privateKeyFile = value;
+      else if (keyword === 'proxyjump' && value.toLowerCase() !== 'none') config.jumpHost = value;
+    }
+  }
+
+  invalidPorts.forEach((port, host) =>
+    console.log(
+      chalk.yellow(`⚠️  Skipping ${host.name}: Port ${port} is not a valid port (1-65535)`)
+    )
+  );
+  return hosts.filter((host) => !invalidPorts.has(host));
+}
+
+/**
+ * Collect host-like string values from `terraform output -json`, named by their output path
+ * (e.g. "todo_mini_prod_ip", "servers.todo-mini-dev", "bastions.0")
+ */
+export function parseTerraformOutput(content: string): ImportedHost[] {
+  const outputs = JSON.parse(content) as Record<string, { value?: unknown }>;
+  const hosts: ImportedHost[] = [];
+
+  const walk = (value: unknown, path: string[]): void => {
+    if (typeof value === 'string') {
+      if (HOST_VALUE_PATTERN.test(value)) {
+        hosts.push({ name: path.join('.'), cloudConfig: { ip: value } });
+      }
+    } else if (Array.isArray(value)) {
+      value.forEach((item, index) => walk(item, [...path, String(index)]));
+    } else if (value && typeof value === 'object') {
+      Object.entries(value).forEach(([key, item]) => walk(item, [...path, key]));
+    }
+  };
+
+  for (const [name, output] of Object.entries(outputs)) {
+    walk(output && typeof output === 'object' && 'value' in output ? output.value : output, [name]);
+  }
+
+  return hosts;
+}
+
+function readImportSource(file: string, format?: CloudImportOptions['format']): ImportedHost[] {
+  const path = expandHome(file);
+  if (!existsSync(path)) {
+    throw new Error(`File not found: ${path}`);
+  }
+  const content = readFileSync(path, 'utf-8');
+
+  if (format === 'ssh') return parseSshConfig(content);
+  if (format === 'terraform') return parseTerraformOutput(content);
+
+  // Auto-detect: terraform outputs are JSON, ssh configs are not
+  try {
+    JSON.parse(content);
+  } catch {
+    return parseSshConfig(content);
+  }
+  return parseTerraformOutput(content);
+}
+
+const guessMapping = (name: string, pattern: RegExp) => {
+  // Drop address-like suffixes ("todo_mini_prod_ip", "servers.todo-mini-dev.private_ip"),
+  // then try the last path segment before the full terraform output path
+  const trimmed = name.replace(/[._-](public_ip|private_ip|ip|address|host)$/i, '');
+  const candidates = [trimmed.split('.').pop()!, trimmed];
+
+  for (const candidate of candidates) {
+    const groups = candidate.match(pattern)?.groups;
+    if (groups?.service && groups?.env) {
+      const env = groups.env.toLowerCase();
+      return { service: groups.service, env: ENV_ALIASES[env] ?? env };
+    }
+  }
+  return undefined;
+};
+
+async function promptForMapping(
+  host: ImportedHost,
+  guess?: { service: string; env: Environment }
+): Promise<{ service: string; env: Environment } | undefined> {
+  const { mapping } = await inquirer.prompt([
+    {
+      type: 'input',
+      name: 'mapping',
+      message: `${host.name} (${host.cloudConfig.ip}) → service/env (blank to skip):`,
+      default: guess ? `${guess.service}/${guess.env}` : undefined,
+      validate: (input: string) => {
+        const value = input.trim();
+        if (!value) return true;
+        const [service = '', env = '', ...rest] = value.split('/');
+        return (
+          (rest.length === 0 && isValidName(service) && isValidName(env)) ||
+          `Use the form service/env (not ${[...RESERVED_NAMES].join(', ')})`
+        );
+      },
+    },
+  ]);
+  const value = (mapping as string).trim();
+  if (!value) return undefined;
+  const [service, env] = value.split('/');
+  return { service, env };
+}
+
+interface ImportChange {
+  service: string;
+  env: Environment;
+  before?: CloudConfig;
+  after: CloudConfig;
+}
+
+const CLOUD_CONFIG_FIELDS = ['ip', 'user', 'port', 'privateKeyFile', 'jumpHost'] as const;
+
+function printDiff(changes: ImportChange[]): void {
+  for (const change of changes) {
+    const label = `${change.service}/${change.env}`;
+    if (!change.before) {
+      console.log(chalk.green(`+ ${label}: ${JSON.stringify(change.after)}`));
+      continue;
+    }
+    console.log(chalk.yellow(`~ ${label}`));
+    for (const field of CLOUD_CONFIG_FIELDS) {
+      const before = JSON.stringify(change.before[field]);
+      const after = JSON.stringify(change.after[field]);
+      if (before !== after) {
+        console.log(chalk.yellow(`    ${field}: ${before ?? '(unset)'} → ${after ?? '(unset)'}`));
+      }
+    }
+  }
+}
+
+const mergeChanges = (yiren: YirenConfig, changes: ImportChange[]): YirenConfig => {
+  const merged: YirenConfig = { ...yiren };
+  for (const change of changes) {
+    merged[change.service] = { ...merged[change.service], [change.env]: change.after };
+  }
+  return merged;
+};
+
+const isSameHost = (a: CloudConfig, b: CloudConfig): boolean =>
+  CLOUD_CONFIG_FIELDS.every((field) => JSON.stringify(a[field]) === JSON.stringify(b[field]));
+
+/**
+ * Import hosts from an OpenSSH config or terraform output into config.yiren:
+ * map each to a service/env, show the diff against the current inventory and merge it in
+ */
+export async function cloudImport(file: string, options: CloudImportOptions): Promise<void> {
+  try {
+    if (options.format && !['ssh', 'terraform'].includes(options.format)) {
+      throw new Error(`Invalid --format: ${options.format} (expected ssh or terraform)`);
+    }
+
+    const hosts = readImportSource(file, options.format);
+    if (hosts.length === 0) {
+      console.log(chalk.yellow('⚠️  No hosts found to import.'));
+      return;
+    }
+
+    let pattern = DEFAULT_PATTERN;
+    if (options.pattern) {
+      try {
+        pattern = new RegExp(options.pattern);
+      } catch {
+        throw new Error(`Invalid --pattern: ${options.pattern}`);
+      }
+    }
+
+    const config = readConfig();
+    const yiren: YirenConfig = config.yiren ?? {};
+    const changes: ImportChange[] = [];
+
+    for (const host of hosts) {
+      const guess = guessMapping(host.name, pattern);
+      const mapping = options.pattern ? guess : await promptForMapping(host, guess);
+      if (!mapping) {
+        if (options.pattern) {
+          console.log(chalk.gray(`   Skipping ${host.name}: does not match --pattern`));
+        }
+        continue;
+      }
+      if (!isValidName(mapping.service) || !isValidName(mapping.env)) {
+        console.log(
+          chalk.yellow(
+            `⚠️  Skipping ${host.name}: "${mapping.service}/${mapping.env}" is not a valid service/env name`
+          )
+        );
+        continue;
+      }
+
+      const privateKeyFile = host.cloudConfig.privateKeyFile ?? options.key;
+      if (!privateKeyFile) {
+        console.log(
+          chalk.yellow(`⚠️  Skipping ${host.name}: no IdentityFile; pass --key <file> to set one`)
+        );
+        continue;
+      }
+
+      const before = yiren[mapping.service]
+        ? getCloudConfig(yiren[mapping.service], mapping.env)
+        : undefined;
+      // Keep fields the import source does not know about (e.g. sshOptions)
+      const after: CloudConfig = { ...before, ...host.cloudConfig, privateKeyFile };
+      if (before && isSameHost(before, after)) continue;
+
+      changes.push({ service: mapping.service, env: mapping.env, before, after });
+    }
+
+    if (changes.length === 0) {
+      console.log(chalk.green('✅ Inventory already up to date; nothing to import.'));
+      return;
+    }
+
+    console.log(chalk.bold(`\nChanges to yiren (${changes.length}):`));
+    printDiff(changes);
+
+    // Throws ConfigValidationError naming e.g. `yiren.todo-mini.prod.ip`
+    validateConfig({ ...config, yiren: mergeChanges(yiren, changes) });
+
+    if (options.dryRun) {
+      console.log(chalk.blue('ℹ️  Dry run: config not modified.'));
+      return;
+    }
+
+    if (!options.yes) {
+      const { apply } = await inquirer.prompt([
+        { type: 'confirm', name: 'apply', message: 'Apply these changes?', default: true },
+      ]);
+      if (!apply) {
+        console.log(chalk.blue('ℹ️  Operation cancelled.'));
+        return;
+      }
+    }
+
+    updateConfig((latest) => {
+      latest.yiren = mergeChanges(latest.yiren, changes);
+    });
+    console.log(chalk.green(`✅ Imported ${changes.length} host(s) into yiren`));
+  } catch (error) {
+    printCloudError(error);
+    process.exitCode = 1;
+  }
+}
@@ -0,0 +1,543 @@
+import inquirer from 'inquirer';
+import chalk from 'chalk';
+import { existsSync, statSync } from 'fs';
+import type { Readable } from 'stream';
+import { $, ProcessOutput } from 'zx';
+import { expandHome, readConfig } from '../../util.js';
+import { appendAuditEntry } from './audit.js';
+import {
+  CloudLoginError,
+  type CloudConfig,
+  type CloudLoginErrorInfo,
+  type CloudLoginOptions,
+  type JumpHostConfig,
+  type CloudTargetSelection,
+  type Environment,
+  type ServiceConfig,
+  type YirenConfig,
+} from '../../types/index.js';
+
+export const DEFAULT_SSH_USER = 'root';
+
+// Keys of a service entry that hold per-service settings rather than an environment's host
+const SERVICE_RESERVED_KEYS = new Set(['tunnels', 'logs']);
+
+/**
+ * Error raised by cloud commands, carrying structured info for user feedback
+ */
+export class CloudCommandError extends Error {
+  readonly info: CloudLoginErrorInfo;
+
+  constructor(info: CloudLoginErrorInfo) {
+    super(info.message);
+    this.name = 'CloudCommandError';
+    this.info = info;
+  }
+}
+
+export interface CloudTarget {
+  service: string;
+  environment: Environment;
+  cloudConfig: CloudConfig;
+}
+
+export const getServiceEnvironments = (serviceConfig: ServiceConfig): Environment[] =>
+  Object.keys(serviceConfig).filter(
+    (key) => !SERVICE_RESERVED_KEYS.has(key) && serviceConfig[key] !== undefined
+  );
+
+export const getCloudConfig = (
+  serviceConfig: ServiceConfig,
+  environment: Environment
+): CloudConfig | undefined =>
+  SERVICE_RESERVED_KEYS.has(environment)
+    ? undefined
+    : (serviceConfig[environment] as CloudConfig | undefined);
+
+export function getYirenConfig(): YirenConfig {
+  const config = readConfig();
+
+  if (!config.yiren || Object.keys(config.yiren).length === 0) {
+    throw new CloudCommandError({
+      type: CloudLoginError.INVALID_CONFIG,
+      message: 'No cloud services configured in yiren section',
+      suggestion: 'Add your services under "yiren" in ~/.ai/config.json',
+    });
+  }
+
+  return config.yiren;
+}
+
+export async function promptForService(availableServices: string[]): Promise<string> {
+  const { service } = await inquirer.prompt([
+    {
+      type: 'list',
+      name: 'service',
+      message: 'Select service:',
+      choices: availableServices,
+    },
+  ]);
+  return service;
+}
+
+export async function promptForEnvironment(
+  availableEnvironments: Environment[]
+): Promise<Environment> {
+  const { environment } = await inquirer.prompt([
+    {
+      type: 'list',
+      name: 'environment',
+      message: 'Select environment:',
+      choices: availableEnvironments,
+    },
+  ]);
+  return environment;
+}
+
+// Environments are free-form, so any name with a production word counts: `prod`,
+// `production`, `prd`, `live`, also within names like `eu-prod` or `prod2` (not `preprod`)
+const PRODUCTION_WORD = /^(prod|production|prd|live)\d*$/;
+
+export const isProductionEnvironment = (environment: string): boolean =>
+  environment
+    .toLowerCase()
+    .split(/[-_.\s]+/)
+    .some((word) => PRODUCTION_WORD.test(word));
+
+export const isProductionTarget = (target: CloudTarget): boolean =>
+  isProductionEnvironment(target.environment);
+
+/**
+ * Require the user to type the service name before touching prod.
+ * `--yes-prod` skips the prompt; without a TTY the flag is mandatory.
+ */
+export async function confirmProductionAccess(
+  targets: CloudTarget[],
+  yesProd?: boolean
+): Promise<boolean> {
+  const services = [...new Set(targets.filter(isProductionTarget).map((t) => t.service))];
+  if (services.length === 0) return true;
+
+  if (yesProd) {
+    console.log(
+      chalk.yellow(`⚠️  Operating on PRODUCTION for ${services.join(', ')} (--yes-prod)`)
+    );
+    return true;
+  }
+
+  if (!process.stdin.isTTY) {
+    throw new CloudCommandError({
+      type: CloudLoginError.PRODUCTION_NOT_CONFIRMED,
+      message: `Refusing to operate on PRODUCTION for ${services.join(', ')} without confirmation`,
+      suggestion: 'Pass --yes-prod to confirm non-interactively',
+    });
+  }
+
+  console.log(
+    chalk.yellow(`⚠️  You are about to operate on PRODUCTION for ${services.join(', ')}.`)
+  );
+  for (const service of services) {
+    const { typed } = await inquirer.prompt([
+      {
+        type: 'input',
+        name: 'typed',
+        message: `Type "${service}" to continue:`,
+      },
+    ]);
+    if ((typed as string).trim() !== service) {
+      return false;
+    }
+  }
+  return true;
+}
+
+// Comma-separated CLI values, e.g. `--service a,b`
+export const splitList = (value?: string): string[] =>
+  (value ?? '')
+    .split(',')
+    .map((item) => item.trim())
+    .filter(Boolean);
+
+async function promptForServices(availableServices: string[]): Promise<string[]> {
+  const { services } = await inquirer.prompt([
+    {
+      type: 'checkbox',
+      name: 'services',
+      message: 'Select services:',
+      choices: availableServices,
+      validate: (input: string[]) => input.length > 0 || 'Select at least one service',
+    },
+  ]);
+  return services;
+}
+
+async function promptForEnvironments(availableEnvironments: Environment[]): Promise<Environment[]> {
+  const { environments } = await inquirer.prompt([
+    {
+      type: 'checkbox',
+      name: 'environments',
+      message: 'Select environments:',
+      choices: availableEnvironments,
+      validate: (input: string[]) => input.length > 0 || 'Select at least one environment',
+    },
+  ]);
+  return environments;
+}
+
+/**
+ * Resolve every host matching the service/env lists (or --all) from config.yiren.
+ * An omitted list is prompted for with checkboxes, or means "everything" when
+ * `whenOmitted` is 'all' (for read-only overviews such as `ai cloud status`).
+ */
+export async function resolveCloudTargets(
+  selection: CloudTargetSelection,
+  whenOmitted: 'prompt' | 'all' = 'prompt'
+): Promise<CloudTarget[]> {
+  const yiren = getYirenConfig();
+  const availableServices = Object.keys(yiren);
+  const selectAll = selection.all || whenOmitted === 'all';
+
+  let services = selection.all ? availableServices : splitList(selection.service);
+  if (services.length === 0) {
+    services = selectAll ? availableServices : await promptForServices(availableServices);
+  }
+
+  const unknownServices = services.filter((service) => !yiren[service]);
+  if (unknownServices.length > 0) {
+    throw new CloudCommandError({
+      type: CloudLoginError.SERVICE_NOT_FOUND,
+      message: `Service(s) not found in configuration: ${unknownServices.join(', ')}`,
+      suggestion: `Available services: ${availableServices.join(', ')}`,
+    });
+  }
+
+  // Environments configured on any selected service, in first-seen order
+  const configured = [
+    ...new Set(services.flatMap((service) => getServiceEnvironments(yiren[service]))),
+  ];
+
+  let environments: Environment[] = splitList(selection.env);
+  const unknownEnvironments = environments.filter((env) => !configured.includes(env));
+  if (unknownEnvironments.length > 0) {
+    throw new CloudCommandError({
+      type: CloudLoginError.ENVIRONMENT_NOT_FOUND,
+      message: `Environment(s) not configured for the selected services: ${unknownEnvironments.join(', ')}`,
+      suggestion: `Available environments: ${configured.join(', ')}`,
+    });
+  }
+  if (environments.length === 0) {
+    environments = selectAll ? configured : await promptForEnvironments(configured);
+  }
+
+  const targets: CloudTarget[] = [];
+  for (const service of services) {
+    for (const environment of environments) {
+      const cloudConfig = getCloudConfig(yiren[service], environment);
+      if (!cloudConfig) {
+        if (selection.env) {
+          console.log(chalk.yellow(`⚠️  Skipping ${service} (${environment}): not configured`));
+        }
+        continue;
+      }
+      validateCloudConfig(service, environment, cloudConfig);
+      targets.push({ service, environment, cloudConfig });
+    }
+  }
+
+  if (targets.length === 0) {
+    throw new CloudCommandError({
+      type: CloudLoginError.ENVIRONMENT_NOT_FOUND,
+      message: 'No configured hosts match the selected services and environments',
+    });
+  }
+
+  return targets;
+}
+
+/**
+ * Forward a stream line by line, holding partial lines until they are complete
+ */
+export function forEachLine(stream: Readable, onLine: (line: string) => void): void {
+  let buffer = '';
+  stream.on('data', (chunk: Buffer | string) => {
+    buffer += chunk.toString();
+    const lines = buffer.split('\n');
+    buffer = lines.pop() ?? '';
+    lines.forEach(onLine);
+  });
+  stream.on('end', () => {
+    if (buffer) onLine(buffer);
+    buffer = '';
+  });
+}
+
+// Quote an argument for the remote POSIX shell that ssh hands the command to
+export const shellQuote = (arg: string): string =>
+  /^[\w@%+=:,./-]+$/.test(arg) ? arg : `'${arg.replace(/'/g, `'\\''`)}'`;
+
+const PREFIX_COLORS = [chalk.cyan, chalk.magenta, chalk.yellow, chalk.green, chalk.blue];
+
+export const formatTargetLabel = (target: CloudTarget): string =>
+  `${target.service}/${target.environment}`;
+
+/**
+ * Build a colored, width-aligned "[service/env]" prefix for each target's output lines
+ */
+export function createHostPrefixer(targets: CloudTarget[]): (target: CloudTarget) => string {
+  const width = Math.max(...targets.map((target) => formatTargetLabel(target).length));
+  return (target) => {
+    const index = targets.indexOf(target);
+    const color = PREFIX_COLORS[Math.max(index, 0) % PREFIX_COLORS.length];
+    return color(`[${formatTargetLabel(target).padEnd(width)}]`);
+  };
+}
+
+const isValidPort = (port: unknown): boolean =>
+  Number.isInteger(port) && (port as number) >= 1 && (port as number) <= 65535;
+
+/**
+ * Reject host entries ssh could not use, naming the offending config path
+ */
+function validateCloudConfig(
+  service: string,
+  environment: Environment,
+  cloudConfig: CloudConfig
+): void {
+  const path = `yiren.${service}.${environment}`;
+  const invalid = (message: string) =>
+    new CloudCommandError({ type: CloudLoginError.INVALID_CONFIG, message: `${path}: ${message}` });
+
+  if (!cloudConfig.ip || !cloudConfig.privateKeyFile) {
+    throw invalid('must define both "ip" and "privateKeyFile"');
+  }
+  if (cloudConfig.port !== undefined && !isValidPort(cloudConfig.port)) {
+    throw invalid(`invalid port ${cloudConfig.port}`);
+  }
+
+  const { jumpHost } = cloudConfig;
+  if (typeof jumpHost === 'object') {
+    if (!jumpHost.host) {
+      throw invalid('jumpHost must define "host"');
+    }
+    if (jumpHost.port !== undefined && !isValidPort(jumpHost.port)) {
+      throw invalid(`invalid jumpHost port ${jumpHost.port}`);
+    }
+  }
+}
+
+const formatJumpHost = (jumpHost: JumpHostConfig): string =>
+  `${jumpHost.user ?? DEFAULT_SSH_USER}@${jumpHost.host}${jumpHost.port ? `:${jumpHost.port}` : ''}`;
+
+/**
+ * ProxyJump/ProxyCommand settings for a host's jump host.
+ * `resolveKey` maps the bastion's privateKeyFile to the path to use (validated or not).
+ */
+export const jumpHostOptions = (
+  jumpHost: CloudConfig['jumpHost'],
+  resolveKey: (privateKeyFile: string) => string
+): Record<string, string> => {
+  if (typeof jumpHost === 'string') {
+    return { ProxyJump: jumpHost };
+  }
+  if (jumpHost?.privateKeyFile) {
+    // ProxyJump cannot take a separate key, so hop through the bastion explicitly
+    const jumpKey = resolveKey(jumpHost.privateKeyFile);
+    return {
+      ProxyCommand:
+        `ssh -i "${jumpKey}" -o StrictHostKeyChecking=accept-new -p ${jumpHost.port ?? 22} ` +
+        `-W %h:%p ${jumpHost.user ?? DEFAULT_SSH_USER}@${jumpHost.host}`,
+    };
+  }
+  return jumpHost ? { ProxyJump: formatJumpHost(jumpHost) } : {};
+};
+
+/**
+ * Common ssh/scp options: key auth, bounded connect time, trust new hosts on first use,
+ * plus the host's port, jump host and extra options. Everything is passed as `-o Key=Value`
+ * so the same list works for both ssh and scp.
+ */
+export const sshOptions = (
+  cloudConfig: CloudConfig,
+  keyPath: string,
+  overrides?: Record<string, string | number>
+): string[] => {
+  const options: Record<string, string | number> = {
+    ConnectTimeout: 10,
+    StrictHostKeyChecking: 'accept-new',
+  };
+
+  if (cloudConfig.port) {
+    options.Port = cloudConfig.port;
+  }
+
+  Object.assign(
+    options,
+    jumpHostOptions(cloudConfig.jumpHost, validatePrivateKey),
+    cloudConfig.sshOptions,
+    overrides
+  );
+
+  return [
+    '-i',
+    keyPath,
+    ...Object.entries(options).flatMap(([key, value]) => ['-o', `${key}=${value}`]),
+  ];
+};
+
+export const sshDestination = (cloudConfig: CloudConfig): string =>
+  `${cloudConfig.user ?? DEFAULT_SSH_USER}@${cloudConfig.ip}`;
+
+/**
+ * Resolve service, environment and host from config.yiren,
+ * prompting for whichever of --service / --env was omitted
+ */
+export async function resolveCloudTarget(options: CloudLoginOptions): Promise<CloudTarget> {
+  const yiren = getYirenConfig();
+
+  const availableServices = Object.keys(yiren);
+  const service = options.service ?? (await promptForService(availableServices));
+
+  const serviceConfig = yiren[service];
+  if (!serviceConfig) {
+    throw new CloudCommandError({
+      type: CloudLoginError.SERVICE_NOT_FOUND,
+      message: `Service '${service}' not found in configuration`,
+      suggestion: `Available services: ${availableServices.join(', ')}`,
+    });
+  }
+
+  const availableEnvironments = getServiceEnvironments(serviceConfig);
+  const environment = options.env ?? (await promptForEnvironment(availableEnvironments));
+
+  const cloudConfig = getCloudConfig(serviceConfig, environment);
+  if (!cloudConfig) {
+    throw new CloudCommandError({
+      type: CloudLoginError.ENVIRONMENT_NOT_FOUND,
+      message: `Environment '${environment}' not configured for service '${service}'`,
+      suggestion: `Available environments: ${availableEnvironments.join(', ') || '(none)'}`,
+    });
+  }
+
+  validateCloudConfig(service, environment, cloudConfig);
+
+  return { service, environment, cloudConfig };
+}
+
+/**
+ * Ensure the private key exists and is not readable by group/others (ssh refuses it otherwise)
+ */
+export function validatePrivateKey(privateKeyFile: string): string {
+  const keyPath = expandHome(privateKeyFile);
+
+  if (!existsSync(keyPath)) {
+    throw new CloudCommandError({
+      type: CloudLoginError.PRIVATE_KEY_NOT_FOUND,
+      message: `Private key file not found: ${keyPath}`,
+      suggestion: 'Check the privateKeyFile path in ~/.ai/config.json',
+    });
+  }
+
+  const mode = statSync(keyPath).mode & 0o777;
+  if (mode & 0o077) {
+    throw new CloudCommandError({
+      type: CloudLoginError.PRIVATE_KEY_PERMISSIONS,
+      message: `Private key permissions are too open (${mode.toString(8)}): ${keyPath}`,
+      suggestion: 'Restrict the key to your user only',
+      command: `chmod 600 ${keyPath}`,
+    });
+  }
+
+  return keyPath;
+}
+
+/**
+ * Map a failed ssh/scp invocation to a structured cloud error
+ */
+export function handleSSHError(error: unknown, target: CloudTarget): CloudCommandError {
+  if (error instanceof CloudCommandError) return error;
+
+  const stderr = error instanceof ProcessOutput ? error.stderr : String(error);
+  const host = target.cloudConfig.ip;
+
+  if (/Permission denied|Too many authentication failures/i.test(stderr)) {
+    return new CloudCommandError({
+      type: CloudLoginError.AUTHENTICATION_FAILED,
+      message: `Authentication failed for ${host}`,
+      suggestion: 'Check the private key file permissions and path',
+    });
+  }
+
+  if (/timed out|No route to host|Network is unreachable|Could not resolve/i.test(stderr)) {
+    return new CloudCommandError({
+      type: CloudLoginError.NETWORK_UNREACHABLE,
+      message: `Host unreachable: ${host}`,
+      suggestion: 'Verify the IP address and your network access (VPN, security groups)',
+    });
+  }
+
+  if (/Connection refused/i.test(stderr)) {
+    return new CloudCommandError({
+      type: CloudLoginError.SSH_CONNECTION_FAILED,
+      message: `Connection refused by ${host}`,
+      suggestion: 'Check that the SSH service is running on the target host',
+    });
+  }
+
+  const exitCode = error instanceof ProcessOutput ? error.exitCode : null;
+  return new CloudCommandError({
+    type: CloudLoginError.SSH_CONNECTION_FAILED,
+    message: `SSH to ${target.service} (${target.environment}) failed${exitCode !== null ? ` with exit code ${exitCode}` : ''}`,
+  });
+}
+
+export function printCloudError(error: unknown): void {
+  if (error instanceof CloudCommandError) {
+    const { message, suggestion, command } = error.info;
+    console.error(chalk.red(`❌ ${message}`));
+    if (suggestion) console.error(chalk.yellow(`💡 ${suggestion}`));
+    if (command) console.error(chalk.gray(`   ${command}`));
+    return;
+  }
+  console.error(chalk.red(`❌ ${error instanceof Error ? error.message : String(error)}`));
+}
+
+export async function cloudLogin(options: CloudLoginOptions): Promise<void> {
+  try {
+    const target = await resolveCloudTarget(options);
+    const keyPath = validatePrivateKey(target.cloudConfig.privateKeyFile);
+
+    if (!(await confirmProductionAccess([target], options.yesProd))) {
+      console.log(chalk.yellow('⏸️  Production operation cancelled.'));
+      return;
+    }
+    appendAuditEntry({
+      action: 'login',
+      service: target.service,
+      environment: target.environment,
+      host: sshDestination(target.cloudConfig),
+      command: 'ssh (interactive)',
+    });
+
+    console.log(
+      chalk.blue(
+        `🔐 Connecting to ${target.service} (${target.environment}) at ${sshDestination(target.cloudConfig)}...`
+      )
+    );
+
+    try {
+      // Interactive session: keep stdin/stdout on the TTY, capture stderr for diagnostics
+      await $`ssh ${sshOptions(target.cloudConfig, keyPath)} ${sshDestination(target.cloudConfig)}`.stdio(
+        'inherit',
+        'inherit',
+        'pipe'
+      );
+    } catch (error) {
+      // Exit codes other than 255 come from the remote shell, not from ssh itself
+      if (error instanceof ProcessOutput && error.exitCode !== 255) return;
+      throw handleSSHError(error, target);
+    }
+  } catch (error) {
+    printCloudError(error);
+    process.exitCode = 1;
+  }
+}
@@ -0,0 +1,215 @@
+import inquirer from 'inquirer';
+import chalk from 'chalk';
+import { $ } from 'zx';
+import {
+  CloudCommandError,
+  confirmProductionAccess,
+  createHostPrefixer,
+  forEachLine,
+  getYirenConfig,
+  handleSSHError,
+  printCloudError,
+  resolveCloudTargets,
+  shellQuote,
+  sshDestination,
+  sshOptions,
+  validatePrivateKey,
+  type CloudTarget,
+} from './index.js';
+import { appendAuditEntry } from './audit.js';
+import { CloudLoginError, type CloudLogsOptions, type LogSource } from '../../types/index.js';
+
+const DEFAULT_LINES = 100;
+
+// "10m", "2h", "1d" style durations; anything else is passed through as a timestamp
+const DURATION_PATTERN = /^\d+[smhd]$/;
+
+const describeSource = (source: LogSource): string =>
+  source.file
+    ? `file ${source.file}`
+    : source.unit
+      ? `journalctl -u ${source.unit}`
+      : `docker logs ${source.container}`;
+
+/**
+ * Build the remote command that prints (and optionally follows) a log source
+ */
+export function buildLogCommand(source: LogSource, options: CloudLogsOptions): string {
+  const lines = String(options.lines ? Number(options.lines) : DEFAULT_LINES);
+  const since = options.since?.trim();
+
+  if (source.file) {
+    return ['tail', '-n', lines, ...(options.follow ? ['-F'] : []), shellQuote(source.file)].join(
+      ' '
+    );
+  }
+
+  if (source.unit) {
+    // journalctl takes relative times as "-10m"
+    const journalSince = since && DURATION_PATTERN.test(since) ? `-${since}` : since;
+    return [
+      'journalctl',
+      '--no-pager',
+      '-u',
+      shellQuote(source.unit),
+      ...(journalSince ? ['--since', shellQuote(journalSince)] : ['-n', lines]),
+      ...(options.follow ? ['-f'] : []),
+    ].join(' ');
+  }
+
+  return [
+    'docker',
+    'logs',
+    ...(since ? ['--since', shellQuote(since)] : ['--tail', lines]),
+    ...(options.follow ? ['-f'] : []),
+    shellQuote(source.container!),
+    '2>&1',
+  ].join(' ');
+}
+
+function validateLogSource(service: string, name: string, source: LogSource): void {
+  const kinds = [source.file, source.unit, source.container].filter(Boolean);
+  if (kinds.length !== 1) {
+    throw new CloudCommandError({
+      type: CloudLoginError.INVALID_CONFIG,
+      message: `yiren.${service}.logs.${name}: set exactly one of "file", "unit" or "container"`,
+    });
+  }
+}
+
+/**
+ * Pick the log source name: the argument, the only one declared, or a prompt
+ */
+async function selectSourceName(targets: CloudTarget[], sourceName?: string): Promise<string> {
+  if (sourceName) return sourceName;
+
+  const yiren = getYirenConfig();
+  const names = [
+    ...new Set(targets.flatMap((target) => Object.keys(yiren[target.service].logs ?? {}))),
+  ];
+
+  if (names.length === 0) {
+    throw new CloudCommandError({
+      type: CloudLoginError.INVALID_CONFIG,
+      message: 'No log sources configured for the selected services',
+      suggestion: 'Declare them under yiren.<service>.logs in ~/.ai/config.json',
+    });
+  }
+  if (names.length === 1) return names[0];
+
+  const { name } = await inquirer.prompt([
+    {
+      type: 'list',
+      name: 'name',
+      message: 'Select log source:',
+      choices: names,
+    },
+  ]);
+  return name;
+}
+
+/**
+ * Tail a service's declared log source on one or more hosts.
+ * Several hosts are streamed concurrently with colored [service/env] prefixes.
+ */
+export async function cloudLogs(
+  sourceName: string | undefined,
+  options: CloudLogsOptions
+): Promise<void> {
+  try {
+    if (options.lines !== undefined && !(Number(options.lines) > 0)) {
+      throw new Error(`Invalid --lines value: ${options.lines}`);
+    }
+    if (options.since !== undefined && !options.since.trim()) {
+      throw new Error('--since must not be empty');
+    }
+
+    let filter: RegExp | undefined;
+    if (options.grep) {
+      try {
+        filter = new RegExp(options.grep);
+      } catch {
+        throw new Error(`Invalid --grep pattern: ${options.grep}`);
+      }
+    }
+
+    const selected = await resolveCloudTargets(options);
+    const name = await selectSourceName(selected, sourceName);
+
+    const yiren = getYirenConfig();
+    const targets = selected.filter((target) => {
+      const source = yiren[target.service].logs?.[name];
+      if (!source) {
+        console.log(chalk.yellow(`⚠️  Skipping ${target.service}: no log source "${name}"`));
+      }
+      return Boolean(source);
+    });
+    if (targets.length === 0) {
+      throw new Error(`Log source "${name}" is not declared for the selected services`);
+    }
+
+    if (!(await confirmProductionAccess(targets, options.yesProd))) {
+      console.log(chalk.yellow('⏸️  Production operation cancelled.'));
+      return;
+    }
+
+    const prefixer = createHostPrefixer(targets);
+    const showPrefix = targets.length > 1;
+
+    if (options.since && targets.some((t) => yiren[t.service].logs![name].file)) {
+      console.log(chalk.yellow('⚠️  --since is ignored for file sources'));
+    }
+
+    const sessions = targets.map(async (target) => {
+      const source = yiren[target.service].logs![name];
+      validateLogSource(target.service, name, source);
+      const keyPath = validatePrivateKey(target.cloudConfig.privateKeyFile);
+      const prefix = showPrefix ? `${prefixer(target)} ` : '';
+
+      if (!showPrefix) {
+        console.log(
+          chalk.blue(`📜 ${target.service} (${target.environment}): ${describeSource(source)}`)
+        );
+      }
+
+      const remoteCommand = buildLogCommand(source, options);
+      appendAuditEntry({
+        action: 'logs',
+        service: target.service,
+        environment: target.environment,
+        host: sshDestination(target.cloudConfig),
+        command: remoteCommand,
+      });
+
+      const session =
+        $`ssh -n ${sshOptions(target.cloudConfig, keyPath)} -o BatchMode=yes ${sshDestination(target.cloudConfig)} ${remoteCommand}`
+          .quiet()
+          .nothrow();
+
+      forEachLine(session.stdout, (line) => {
+        if (filter && !filter.test(line)) return;
+        const text = filter
+          ? line.replace(new RegExp(filter.source, 'g'), (m) => chalk.bold.red(m))
+          : line;
+        console.log(`${prefix}${text}`);
+      });
+      forEachLine(session.stderr, (line) => console.error(`${prefix}${chalk.red(line)}`));
+
+      const output = await session;
+      if (output.exitCode === 255) {
+        throw handleSSHError(output, target);
+      }
+      return output.exitCode;
+    });
+
+    const results = await Promise.allSettled(sessions);
+    const failures = results.filter((result) => result.status === 'rejected');
+    failures.forEach((failure) => printCloudError((failure as PromiseRejectedResult).reason));
+    if (failures.length > 0 || results.some((r) => r.status === 'fulfilled' && r.value !== 0)) {
+      process.exitCode = 1;
+    }
+  } catch (error) {
+    printCloudError(error);
+    process.exitCode = 1;
+  }
+}
@@ -0,0 +1,192 @@
+import chalk from 'chalk';
+import { existsSync, statSync } from 'fs';
+import { dirname, resolve } from 'path';
+import { $ } from 'zx';
+import {
+  confirmProductionAccess,
+  handleSSHError,
+  printCloudError,
+  resolveCloudTarget,
+  sshDestination,
+  sshOptions,
+  validatePrivateKey,
+  type CloudTarget,
+} from './index.js';
+import { appendAuditEntry } from './audit.js';
+import type {
+  PathValidationResult,
+  ScpDirection,
+  ScpExecutionContext,
+  ScpOptions,
+} from '../../types/index.js';
+
+const REMOTE_PREFIX = 'remote:';
+
+/**
+ * Validate that local path exists and determine its type
+ */
+export async function validateLocalPath(path: string): Promise<PathValidationResult> {
+  const absolutePath = resolve(path);
+
+  if (!existsSync(absolutePath)) {
+    return { exists: false, isDirectory: false, isFile: false, path: absolutePath };
+  }
+
+  const stats = statSync(absolutePath);
+  return {
+    exists: true,
+    isDirectory: stats.isDirectory(),
+    isFile: stats.isFile(),
+    path: absolutePath,
+  };
+}
+
+/**
+ * Work out the transfer direction from the `remote:` prefix.
+ * A prefixed source means download; otherwise the source is local (upload).
+ */
+function parseTransferPaths(
+  source: string,
+  destination: string
+): { direction: ScpDirection; localPath: string; remotePath: string } {
+  const sourceIsRemote = source.startsWith(REMOTE_PREFIX);
+  const destinationIsRemote = destination.startsWith(REMOTE_PREFIX);
+
+  if (sourceIsRemote && destinationIsRemote) {
+    throw new Error('Only one of the paths may use the "remote:" prefix');
+  }
+
+  if (sourceIsRemote) {
+    return {
+      direction: 'download',
+      localPath: destination,
+      remotePath: source.slice(REMOTE_PREFIX.length),
+    };
+  }
+
+  return {
+    direction: 'upload',
+    localPath: source,
+    remotePath: destinationIsRemote ? destination.slice(REMOTE_PREFIX.length) : destination,
+  };
+}
+
+async function validateTransferPaths(
+  direction: ScpDirection,
+  localPath: string,
+  remotePath: string,
+  options: ScpOptions
+): Promise<PathValidationResult> {
+  if (!remotePath.trim()) {
+    throw new Error('Remote path must not be empty');
+  }
+
+  const pathInfo = await validateLocalPath(localPath);
+
+  if (direction === 'upload') {
+    if (!pathInfo.exists) {
+      throw new Error(`Local path not found: ${pathInfo.path}`);
+    }
+    if (pathInfo.isDirectory && !options.recursive) {
+      throw new Error('Cannot copy directory without -r flag');
+    }
+    return pathInfo;
+  }
+
+  // Download: the destination itself may not exist yet, but its parent must
+  const parent = pathInfo.exists && pathInfo.isDirectory ? pathInfo.path : dirname(pathInfo.path);
+  if (!existsSync(parent)) {
+    throw new Error(`Local destination directory not found: ${parent}`);
+  }
+  return pathInfo;
+}
+
+export function buildExecutionContext(
+  target: CloudTarget,
+  direction: ScpDirection,
+  pathInfo: PathValidationResult,
+  remotePath: string,
+  options: ScpOptions
+): ScpExecutionContext {
+  return {
+    service: target.service,
+    environment: target.environment,
+    cloudConfig: target.cloudConfig,
+    direction,
+    localPath: pathInfo.path,
+    remotePath,
+    isRecursive: direction === 'upload' ? pathInfo.isDirectory : Boolean(options.recursive),
+  };
+}
+
+/**
+ * Construct and execute the scp command; scp renders its own progress meter on the TTY
+ */
+export async function executeScpCommand(context: ScpExecutionContext): Promise<void> {
+  const keyPath = validatePrivateKey(context.cloudConfig.privateKeyFile);
+  const remote = `${sshDestination(context.cloudConfig)}:${context.remotePath}`;
+  const [from, to] =
+    context.direction === 'upload' ? [context.localPath, remote] : [remote, context.localPath];
+  const flags = context.isRecursive ? ['-r'] : [];
+
+  const label = `${context.service} (${context.environment})`;
+  console.log(
+    chalk.blue(
+      context.direction === 'upload'
+        ? `📤 Copying ${context.localPath} to ${label}:${context.remotePath}...`
+        : `📥 Copying ${label}:${context.remotePath} to ${context.localPath}...`
+    )
+  );
+
+  appendAuditEntry({
+    action: 'scp',
+    service: context.service,
+    environment: context.environment,
+    host: sshDestination(context.cloudConfig),
+    command: ['scp', ...flags, from, to].join(' '),
+  });
+
+  try {
+    await $`scp ${sshOptions(context.cloudConfig, keyPath)} ${flags} ${from} ${to}`.stdio(
+      'inherit',
+      'inherit',
+      'pipe'
+    );
+  } catch (error) {
+    throw handleSSHError(error, context);
+  }
+
+  console.log(
+    chalk.green(
+      context.direction === 'upload'
+        ? `✅ Successfully copied to ${label}: ${context.remotePath}`
+        : `✅ Successfully copied from ${label}: ${context.localPath}`
+    )
+  );
+}
+
+export async function cloudScp(
+  source: string,
+  destination: string,
+  options: ScpOptions
+): Promise<void> {
+  try {
+    const { direction, localPath, remotePath } = parseTransferPaths(source, destination);
+
+    // Validate local paths before any prompt so typos fail fast
+    const pathInfo = await validateTransferPaths(direction, localPath, remotePath, options);
+
+    const target = await resolveCloudTarget(options);
+
+    if (!(await confirmProductionAccess([target], options.yesProd))) {
+      console.log(chalk.yellow('⏸️  Production operation cancelled.'));
+      return;
+    }
+
+    const context = buildExecutionContext(target, direction, pathInfo, remotePath, options);
+    await executeScpCommand(context);
+  } catch (error) {
+    printCloudError(error);
+    process.exitCode = 1;
+  }
+}
@@ -0,0 +1,125 @@
+import chalk from 'chalk';
+import { chmodSync, existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { homedir } from 'os';
+import { dirname, join } from 'path';
+import {
+  DEFAULT_SSH_USER,
+  jumpHostOptions,
+  printCloudError,
+  resolveCloudTargets,
+  type CloudTarget,
+} from './index.js';
+import { expandHome } from '../../util.js';
+import type { CloudSshConfigOptions } from '../../types/index.js';
+
+const BEGIN_MARKER = '# >>> ai-summon managed hosts (ai cloud ssh-config) >>>';
+const END_MARKER = '# <<< ai-summon managed hosts <<<';
+
+const getSshDir = (): string => join(homedir(), '.ssh');
+const getDefaultSshConfigPath = (): string => join(getSshDir(), 'config');
+const getDefaultIncludePath = (): string => join(getSshDir(), 'ai-summon.config');
+
+export const formatHostAlias = (target: CloudTarget): string =>
+  `${target.service}-${target.environment}`.replace(/\s+/g, '_');
+
+/**
+ * Render one `Host <service>-<env>` block per target
+ */
+export function renderSshConfig(targets: CloudTarget[]): string {
+  const blocks = targets.map((target) => {
+    const { cloudConfig } = target;
+    const directives: Record<string, string | number> = {
+      HostName: cloudConfig.ip,
+      User: cloudConfig.user ?? DEFAULT_SSH_USER,
+      ...(cloudConfig.port ? { Port: cloudConfig.port } : {}),
+      IdentityFile: expandHome(cloudConfig.privateKeyFile),
+      IdentitiesOnly: 'yes',
+      ...jumpHostOptions(cloudConfig.jumpHost, expandHome),
+      ...cloudConfig.sshOptions,
+    };
+
+    const lines = Object.entries(directives).map(([key, value]) => `  ${key} ${value}`);
+    return [`Host ${formatHostAlias(target)}`, ...lines].join('\n');
+  });
+
+  return blocks.join('\n\n') + '\n';
+}
+
+const writeSshFile = (path: string, content: string): void => {
+  mkdirSync(dirname(path), { recursive: true, mode: 0o700 });
+  writeFileSync(path, content, 'utf-8');
+  chmodSync(path, 0o600);
+};
+
+/**
+ * Replace the marker-delimited section of an ssh config file, appending it if absent.
+ * Everything outside the markers is left untouched.
+ */
+export function upsertManagedSection(existing: string, body: string): string {
+  const section = `${BEGIN_MARKER}\n${body}${END_MARKER}\n`;
+  const start = existing.indexOf(BEGIN_MARKER);
+  const end = existing.indexOf(END_MARKER);
+
+  if (start !== -1 && end > start) {
+    const after = existing.slice(end + END_MARKER.length).replace(/^\n/, '');
+    return existing.slice(0, start) + section + after;
+  }
+
+  // Keep one blank line between the user's own entries and the managed section
+  let separator = '';
+  if (existing && !existing.endsWith('\n\n')) {
+    separator = existing.endsWith('\n') ? '\n' : '\n\n';
+  }
+  return existing + separator + section;
+}
+
+// Include only takes effect before the first Host block, so it goes at the top
+function ensureInclude(sshConfigPath: string, includePath: string): boolean {
+  const existing = existsSync(sshConfigPath) ? readFileSync(sshConfigPath, 'utf-8') : '';
+  const includeLine = `Include ${includePath}`;
+  if (existing.split('\n').some((line) => line.trim() === includeLine)) {
+    return false;
+  }
+  writeSshFile(sshConfigPath, `${includeLine}\n\n${existing}`);
+  return true;
+}
+
+/**
+ * Render config.yiren as OpenSSH Host blocks: print them, or keep a managed
+ * section / include file in sync so other tools can reuse the host list
+ */
+export async function cloudSshConfig(options: CloudSshConfigOptions): Promise<void> {
+  try {
+    const targets = await resolveCloudTargets(options, 'all');
+    const rendered = renderSshConfig(targets);
+
+    if (options.include) {
+      const includePath =
+        typeof options.include === 'string' ? expandHome(options.include) : getDefaultIncludePath();
+      writeSshFile(includePath, `# Generated by ai cloud ssh-config; do not edit\n\n${rendered}`);
+      console.log(chalk.green(`✅ Wrote ${targets.length} host(s) to ${includePath}`));
+
+      const sshConfigPath = getDefaultSshConfigPath();
+      if (ensureInclude(sshConfigPath, includePath)) {
+        console.log(chalk.green(`✅ Added "Include ${includePath}" to ${sshConfigPath}`));
+      }
+      return;
+    }
+
+    if (options.write) {
+      const configPath =
+        typeof options.write === 'string' ? expandHome(options.write) : getDefaultSshConfigPath();
+      const existing = existsSync(configPath) ? readFileSync(configPath, 'utf-8') : '';
+      writeSshFile(configPath, upsertManagedSection(existing, rendered));
+      console.log(
+        chalk.green(`✅ Updated managed section with ${targets.length} host(s) in ${configPath}`)
+      );
+      return;
+    }
+
+    process.stdout.write(rendered);
+  } catch (error) {
+    printCloudError(error);
+    process.exitCode = 1;
+  }
+}
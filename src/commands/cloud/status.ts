@@ -0,0 +1,246 @@
+import chalk from 'chalk';
+import { connect } from 'net';
+import { $, type ProcessOutput } from 'zx';
+import {
+  CloudCommandError,
+  handleSSHError,
+  printCloudError,
+  resolveCloudTargets,
+  sshDestination,
+  sshOptions,
+  validatePrivateKey,
+  type CloudTarget,
+} from './index.js';
+import { mapWithConcurrency } from '../../util.js';
+import {
+  CloudLoginError,
+  type CloudConfig,
+  type CloudHostStatus,
+  type CloudStatusOptions,
+  type CloudStatusResult,
+} from '../../types/index.js';
+
+const DEFAULT_TIMEOUT_MS = 3000;
+const PROBE_CONCURRENCY = 20;
+const DEFAULT_SSH_PORT = 22;
+
+/**
+ * Open (and immediately close) a TCP connection to host:port
+ */
+export function probeTcp(
+  host: string,
+  port: number,
+  timeoutMs: number
+): Promise<{ status: CloudHostStatus; latencyMs?: number; error?: string }> {
+  const startedAt = Date.now();
+
+  return new Promise((resolve) => {
+    const socket = connect({ host, port });
+    const finish = (result: { status: CloudHostStatus; latencyMs?: number; error?: string }) => {
+      socket.destroy();
+      resolve(result);
+    };
+
+    socket.setTimeout(timeoutMs);
+    socket.once('connect', () =>
+      finish({ status: 'reachable', latencyMs: Date.now() - startedAt })
+    );
+    socket.once('timeout', () => finish({ status: 'timeout' }));
+    socket.once('error', (error: Error & { code?: string }) => {
+      if (error.code === 'ECONNREFUSED') {
+        finish({ status: 'refused' });
+      } else if (error.code === 'ETIMEDOUT') {
+        finish({ status: 'timeout' });
+      } else {
+        finish({ status: 'unreachable', error: error.code ?? error.message });
+      }
+    });
+  });
+}
+
+/**
+ * The first hop ssh actually connects to: the jump host if one is configured
+ */
+function getFirstHop(cloudConfig: CloudConfig): { host: string; port: number; via?: string } {
+  const { jumpHost } = cloudConfig;
+
+  if (typeof jumpHost === 'object') {
+    return { host: jumpHost.host, port: jumpHost.port ?? DEFAULT_SSH_PORT, via: jumpHost.host };
+  }
+
+  if (typeof jumpHost === 'string') {
+    // [user@]host[:port], first entry of a comma-separated chain
+    const [first] = jumpHost.split(',');
+    const hostPort = first.slice(first.lastIndexOf('@') + 1);
+    const match = hostPort.match(/^(.*?)(?::(\d+))?$/)!;
+    const port = match[2] ? Number(match[2]) : DEFAULT_SSH_PORT;
+    return { host: match[1], port, via: match[1] };
+  }
+
+  return { host: cloudConfig.ip, port: cloudConfig.port ?? DEFAULT_SSH_PORT };
+}
+
+const sshStatus = (error: CloudCommandError): CloudHostStatus => {
+  switch (error.info.type) {
+    case CloudLoginError.AUTHENTICATION_FAILED:
+      return 'auth-failed';
+    case CloudLoginError.NETWORK_UNREACHABLE:
+      return /timed out/i.test(error.message) ? 'timeout' : 'unreachable';
+    default:
+      return /refused/i.test(error.message) ? 'refused' : 'unreachable';
+  }
+};
+
+async function probeTarget(
+  target: CloudTarget,
+  options: { timeoutMs: number; ssh: boolean }
+): Promise<CloudStatusResult> {
+  const hop = getFirstHop(target.cloudConfig);
+  const base = {
+    service: target.service,
+    environment: target.environment,
+    host: target.cloudConfig.ip,
+    port: target.cloudConfig.port ?? DEFAULT_SSH_PORT,
+    via: hop.via,
+  };
+
+  let keyPath: string;
+  try {
+    keyPath = validatePrivateKey(target.cloudConfig.privateKeyFile);
+  } catch (error) {
+    // A key that exists but is readable by others is not "missing"; point at the fix instead
+    if (
+      error instanceof CloudCommandError &&
+      error.info.type === CloudLoginError.PRIVATE_KEY_PERMISSIONS
+    ) {
+      return { ...base, status: 'key-perms', error: error.message, fix: error.info.command };
+    }
+    return { ...base, status: 'key-missing', error: (error as Error).message };
+  }
+
+  const tcp = await probeTcp(hop.host, hop.port, options.timeoutMs);
+  if (tcp.status !== 'reachable' || !options.ssh) {
+    return { ...base, ...tcp };
+  }
+
+  // Full handshake: authenticates and runs a no-op command. Building the options checks
+  // the jump host's key, which only fails this host's cell.
+  const startedAt = Date.now();
+  let output: ProcessOutput;
+  try {
+    output = await $`ssh -n ${sshOptions(target.cloudConfig, keyPath, {
+      BatchMode: 'yes',
+      ConnectTimeout: Math.max(1, Math.ceil(options.timeoutMs / 1000)),
+    })} ${sshDestination(target.cloudConfig)} true`
+      .quiet()
+      .nothrow();
+  } catch (error) {
+    return { ...base, status: 'error', error: (error as Error).message };
+  }
+
+  if (output.exitCode === 0) {
+    return { ...base, status: 'reachable', latencyMs: Date.now() - startedAt };
+  }
+
+  const error = handleSSHError(output, target);
+  return { ...base, status: sshStatus(error), error: error.message };
+}
+
+const STATUS_STYLES: Record<CloudHostStatus, { label: string; color: (text: string) => string }> = {
+  reachable: { label: '✔ reachable', color: chalk.green },
+  timeout: { label: '⏱ timeout', color: chalk.yellow },
+  refused: { label: '✖ refused', color: chalk.red },
+  unreachable: { label: '✖ unreachable', color: chalk.red },
+  'auth-failed': { label: '✖ auth failed', color: chalk.red },
+  'key-missing': { label: '! key missing', color: chalk.magenta },
+  'key-perms': { label: '! key perms', color: chalk.magenta },
+  error: { label: '✖ error', color: chalk.red },
+};
+
+const formatCell = (result?: CloudStatusResult): { text: string; color: (t: string) => string } => {
+  if (!result) return { text: '-', color: chalk.gray };
+  const style = STATUS_STYLES[result.status];
+  const latency = result.latencyMs !== undefined ? ` ${result.latencyMs}ms` : '';
+  return { text: `${style.label}${latency}`, color: style.color };
+};
+
+/**
+ * Print a service × environment grid; widths are computed on plain text before coloring
+ */
+function printGrid(results: CloudStatusResult[]): void {
+  const services = [...new Set(results.map((r) => r.service))];
+  const environments = [...new Set(results.map((r) => r.environment))];
+  const lookup = (service: string, env: string) =>
+    results.find((r) => r.service === service && r.environment === env);
+
+  const firstWidth = Math.max('SERVICE'.length, ...services.map((s) => s.length));
+  const widths = environments.map((env) =>
+    Math.max(env.length, ...services.map((service) => formatCell(lookup(service, env)).text.length))
+  );
+
+  console.log(
+    chalk.bold(
+      ['SERVICE'.padEnd(firstWidth), ...environments.map((env, i) => env.padEnd(widths[i]))].join(
+        '  '
+      )
+    )
+  );
+  for (const service of services) {
+    const cells = environments.map((env, i) => {
+      const cell = formatCell(lookup(service, env));
+      return cell.color(cell.text.padEnd(widths[i]));
+    });
+    console.log([service.padEnd(firstWidth), ...cells].join('  '));
+  }
+
+  const fixes = [...new Set(results.flatMap((r) => (r.fix ? [r.fix] : [])))];
+  if (fixes.length > 0) {
+    console.log(chalk.gray(`\nKey permissions too open, fix with:`));
+    fixes.forEach((fix) => console.log(chalk.gray(`  💡 ${fix}`)));
+  }
+
+  const failed = results.filter((r) => r.status === 'error');
+  if (failed.length > 0) {
+    console.log(chalk.gray(`\nCould not probe:`));
+    failed.forEach((r) => console.log(chalk.gray(`  ${r.service}/${r.environment}: ${r.error}`)));
+  }
+
+  const jumped = results.filter((r) => r.via);
+  if (jumped.length > 0) {
+    console.log(
+      chalk.gray(
+        `\nProbed via jump host: ${jumped.map((r) => `${r.service}/${r.environment} → ${r.via}`).join(', ')}`
+      )
+    );
+  }
+}
+
+/**
+ * Probe every configured host concurrently and print a reachability grid (or JSON)
+ */
+export async function cloudStatus(options: CloudStatusOptions): Promise<void> {
+  try {
+    const timeoutMs = options.timeout ? Number(options.timeout) : DEFAULT_TIMEOUT_MS;
+    if (!Number.isInteger(timeoutMs) || timeoutMs < 1) {
+      throw new Error(`Invalid --timeout value: ${options.timeout}`);
+    }
+
+    const targets = await resolveCloudTargets(options, 'all');
+    const results = await mapWithConcurrency(targets, PROBE_CONCURRENCY, (target) =>
+      probeTarget(target, { timeoutMs, ssh: Boolean(options.ssh) })
+    );
+
+    if (options.json) {
+      console.log(JSON.stringify(results, null, 2));
+    } else {
+      printGrid(results);
+    }
+
+    if (results.some((result) => result.status !== 'reachable')) {
+      process.exitCode = 1;
+    }
+  } catch (error) {
+    printCloudError(error);
+    process.exitCode = 1;
+  }
+}
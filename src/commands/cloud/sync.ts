@@ -0,0 +1,439 @@
+import chalk from 'chalk';
+import { createHash } from 'crypto';
+import {
+  existsSync,
+  mkdirSync,
+  mkdtempSync,
+  readdirSync,
+  readFileSync,
+  rmSync,
+  statSync,
+  watch,
+  writeFileSync,
+} from 'fs';
+import inquirer from 'inquirer';
+import { tmpdir } from 'os';
+import { basename, join, posix, relative, resolve, sep } from 'path';
+import { $, ProcessOutput } from 'zx';
+import {
+  confirmProductionAccess,
+  formatTargetLabel,
+  handleSSHError,
+  printCloudError,
+  resolveCloudTarget,
+  shellQuote,
+  splitList,
+  sshDestination,
+  sshOptions,
+  validatePrivateKey,
+  type CloudTarget,
+} from './index.js';
+import { appendAuditEntry } from './audit.js';
+import { ensureAiDir, expandHome } from '../../util.js';
+import type { CloudSyncOptions, SyncManifest, SyncManifestEntry } from '../../types/index.js';
+
+const DEFAULT_EXCLUDES = ['.git', 'node_modules', '.DS_Store'];
+const DEFAULT_DEBOUNCE_MS = 500;
+// Keep each remote `rm` well below the shell's argument limit
+const DELETE_BATCH_SIZE = 200;
+
+interface SyncContext {
+  target: CloudTarget;
+  keyPath: string;
+  localDir: string;
+  remoteDir: string;
+  excludes: string[];
+  manifestPath: string;
+  options: CloudSyncOptions;
+}
+
+const getSyncManifestDir = (): string => {
+  const dir = join(ensureAiDir(), 'sync');
+  mkdirSync(dir, { recursive: true });
+  return dir;
+};
+
+const sha1 = (content: string | Buffer): string => createHash('sha1').update(content).digest('hex');
+
+const getManifestPath = (target: CloudTarget, localDir: string, remoteDir: string): string => {
+  const key = sha1(`${sshDestination(target.cloudConfig)}:${remoteDir}|${localDir}`).slice(0, 10);
+  return join(getSyncManifestDir(), `${target.service}-${target.environment}-${key}.json`);
+};
+
+const readManifest = (manifestPath: string): SyncManifest | undefined => {
+  if (!existsSync(manifestPath)) return undefined;
+  try {
+    return JSON.parse(readFileSync(manifestPath, 'utf-8')) as SyncManifest;
+  } catch {
+    // A corrupt manifest only costs a full upload
+    return undefined;
+  }
+};
+
+const isExcluded = (relativePath: string, excludes: string[]): boolean =>
+  relativePath.split(/[\\/]/).some((segment) => excludes.includes(segment));
+
+/**
+ * Paths on the remote side are relative to the login directory unless absolute;
+ * a leading "~/" is dropped because quoting would stop the shell from expanding it
+ */
+const normalizeRemoteDir = (remoteDir: string): string => {
+  if (remoteDir === '~') return '.';
+  return remoteDir.startsWith('~/') ? remoteDir.slice(2) || '.' : remoteDir;
+};
+
+/**
+ * The login directory, the filesystem root or anything above the login directory, where
+ * `--delete` could remove files that were never synced (e.g. `~/.ssh/authorized_keys`)
+ */
+const isUnsafeDeleteDir = (remoteDir: string): boolean => {
+  const normalized = posix.normalize(remoteDir);
+  return ['.', './', '/', '..'].includes(normalized) || normalized.startsWith('../');
+};
+
+/**
+ * Walk the local directory and return every regular file with its size and mtime,
+ * keyed by a "/"-separated path relative to the root
+ */
+function scanLocalDir(
+  root: string,
+  excludes: string[]
+): Map<string, { size: number; mtimeMs: number }> {
+  const files = new Map<string, { size: number; mtimeMs: number }>();
+
+  const walk = (dir: string): void => {
+    for (const entry of readdirSync(dir, { withFileTypes: true })) {
+      if (excludes.includes(entry.name)) continue;
+      const fullPath = join(dir, entry.name);
+      if (entry.isDirectory()) {
+        walk(fullPath);
+      } else if (entry.isFile()) {
+        const stats = statSync(fullPath);
+        const relativePath = relative(root, fullPath).split(sep).join('/');
+        files.set(relativePath, { size: stats.size, mtimeMs: stats.mtimeMs });
+      }
+    }
+  };
+
+  walk(root);
+  return files;
+}
+
+/**
+ * Compare the local tree with the last manifest. Files whose size and mtime are unchanged
+ * are trusted; the others are hashed so a touch without edits is not re-uploaded.
+ */
+function planSync(
+  context: SyncContext,
+  previous?: SyncManifest
+): { files: SyncManifest['files']; changed: string[] } {
+  const files: SyncManifest['files'] = {};
+  const changed: string[] = [];
+
+  for (const [path, stats] of scanLocalDir(context.localDir, context.excludes)) {
+    const before = previous?.files[path];
+    if (before && before.size === stats.size && before.mtimeMs === stats.mtimeMs) {
+      files[path] = before;
+      continue;
+    }
+
+    const entry: SyncManifestEntry = {
+      ...stats,
+      hash: sha1(readFileSync(join(context.localDir, path))),
+    };
+    files[path] = entry;
+    if (!before || before.hash !== entry.hash) {
+      changed.push(path);
+    }
+  }
+
+  return { files, changed };
+}
+
+const runRemote = async (context: SyncContext, command: string): Promise<ProcessOutput> => {
+  const output =
+    await $`ssh -n ${sshOptions(context.target.cloudConfig, context.keyPath)} -o BatchMode=yes ${sshDestination(context.target.cloudConfig)} ${command}`
+      .quiet()
+      .nothrow();
+  if (output.exitCode === 255) {
+    throw handleSSHError(output, context.target);
+  }
+  if (output.exitCode !== 0) {
+    throw new Error(`Remote command failed (exit ${output.exitCode}): ${output.stderr.trim()}`);
+  }
+  return output;
+};
+
+/**
+ * List files under the remote directory, skipping excluded names (a missing directory is empty)
+ */
+async function listRemoteFiles(context: SyncContext): Promise<string[]> {
+  const prune = context.excludes.length
+    ? `\\( ${context.excludes.map((name) => `-name ${shellQuote(name)}`).join(' -o ')} \\) -prune -o`
+    : '';
+  const output = await runRemote(
+    context,
+    `cd ${shellQuote(context.remoteDir)} 2>/dev/null || exit 0; find . ${prune} -type f -print`
+  );
+  return output.stdout
+    .split('\n')
+    .filter(Boolean)
+    .map((line) => line.replace(/^\.\//, ''));
+}
+
+/**
+ * Stream the changed files as one tar archive over a single ssh connection
+ */
+async function uploadFiles(context: SyncContext, paths: string[]): Promise<void> {
+  // tar reads the file list from disk so long lists do not hit the argument limit
+  const listDir = mkdtempSync(join(tmpdir(), 'ai-sync-'));
+  const listFile = join(listDir, 'files');
+  writeFileSync(listFile, paths.join('\n') + '\n', 'utf-8');
+
+  try {
+    const remoteDir = shellQuote(context.remoteDir);
+    const archive = $`tar -cf - -C ${context.localDir} -T ${listFile}`.quiet().nothrow();
+    const upload = archive.pipe(
+      $`ssh ${sshOptions(context.target.cloudConfig, context.keyPath)} -o BatchMode=yes ${sshDestination(context.target.cloudConfig)} ${`mkdir -p ${remoteDir} && tar -xf - -C ${remoteDir}`}`
+        .quiet()
+        .nothrow()
+    );
+
+    const [archiveOutput, uploadOutput] = await Promise.all([archive, upload]);
+    if (uploadOutput.exitCode === 255) {
+      throw handleSSHError(uploadOutput, context.target);
+    }
+    if (archiveOutput.exitCode !== 0) {
+      throw new Error(`tar failed locally: ${archiveOutput.stderr.trim()}`);
+    }
+    if (uploadOutput.exitCode !== 0) {
+      throw new Error(`Remote extract failed: ${uploadOutput.stderr.trim()}`);
+    }
+  } finally {
+    rmSync(listDir, { recursive: true, force: true });
+  }
+}
+
+async function deleteRemoteFiles(context: SyncContext, paths: string[]): Promise<void> {
+  for (let i = 0; i < paths.length; i += DELETE_BATCH_SIZE) {
+    const batch = paths.slice(i, i + DELETE_BATCH_SIZE).map(shellQuote);
+    await runRemote(context, `cd ${shellQuote(context.remoteDir)} && rm -f -- ${batch.join(' ')}`);
+  }
+}
+
+/**
+ * Remote files that an earlier sync uploaded and that no longer exist locally. Files
+ * missing from the manifest were not put there by sync and are never deleted, so the
+ * first sync deletes nothing.
+ */
+async function findOrphans(
+  context: SyncContext,
+  files: Record<string, SyncManifestEntry>,
+  synced: Record<string, SyncManifestEntry>
+): Promise<string[]> {
+  const extra = (await listRemoteFiles(context)).filter((path) => !(path in files));
+  const orphans = extra.filter((path) => path in synced);
+  const unknown = extra.length - orphans.length;
+  if (unknown > 0) {
+    console.log(chalk.gray(`💡 Keeping ${unknown} remote file(s) that were not uploaded by sync`));
+  }
+  return orphans;
+}
+
+async function confirmDelete(count: number, label: string, yes?: boolean): Promise<boolean> {
+  if (yes) return true;
+  const { confirmed } = await inquirer.prompt([
+    {
+      type: 'confirm',
+      name: 'confirmed',
+      message: `Delete ${count} remote file(s) from ${label}?`,
+      default: false,
+    },
+  ]);
+  if (!confirmed) console.log(chalk.yellow(`⏸️  Kept ${count} remote file(s).`));
+  return confirmed;
+}
+
+/**
+ * One sync pass: upload what changed since the manifest and optionally remove orphans
+ */
+async function syncOnce(context: SyncContext): Promise<void> {
+  const { options, target } = context;
+  const startedAt = Date.now();
+  const label = `${formatTargetLabel(target)}:${context.remoteDir}`;
+
+  const recorded = readManifest(context.manifestPath);
+  const synced = recorded?.files ?? {};
+  const { files, changed } = planSync(context, options.force ? undefined : recorded);
+  const orphans = options.delete ? await findOrphans(context, files, synced) : [];
+
+  if (changed.length === 0 && orphans.length === 0) {
+    console.log(chalk.green(`✅ ${label} is up to date (${Object.keys(files).length} files)`));
+    return;
+  }
+
+  changed.forEach((path) => console.log(chalk.green(`   + ${path}`)));
+  orphans.forEach((path) => console.log(chalk.red(`   - ${path}`)));
+
+  if (options.dryRun) {
+    console.log(
+      chalk.blue(
+        `ℹ️  Dry run: ${changed.length} file(s) to upload, ${orphans.length} to delete on ${label}`
+      )
+    );
+    return;
+  }
+
+  const deletions =
+    orphans.length > 0 && (await confirmDelete(orphans.length, label, options.yes)) ? orphans : [];
+  // Declined deletions stay in the manifest so the next pass offers them again
+  const kept = orphans.filter((path) => !deletions.includes(path));
+
+  appendAuditEntry({
+    action: 'sync',
+    service: target.service,
+    environment: target.environment,
+    host: sshDestination(target.cloudConfig),
+    command: `sync ${context.localDir} → ${context.remoteDir} (${changed.length} uploaded, ${deletions.length} deleted)`,
+  });
+
+  if (changed.length > 0) {
+    await uploadFiles(context, changed);
+  }
+  if (deletions.length > 0) {
+    await deleteRemoteFiles(context, deletions);
+  }
+
+  const manifest: SyncManifest = {
+    localDir: context.localDir,
+    remoteDir: context.remoteDir,
+    service: target.service,
+    environment: target.environment,
+    host: sshDestination(target.cloudConfig),
+    syncedAt: Date.now(),
+    files: { ...Object.fromEntries(kept.map((path) => [path, synced[path]])), ...files },
+  };
+  writeFileSync(context.manifestPath, JSON.stringify(manifest, null, 2), 'utf-8');
+
+  const deleted = deletions.length > 0 ? `, deleted ${deletions.length}` : '';
+  const seconds = ((Date.now() - startedAt) / 1000).toFixed(1);
+  console.log(
+    chalk.green(`✅ Uploaded ${changed.length} file(s)${deleted} to ${label} in ${seconds}s`)
+  );
+}
+
+/**
+ * Re-sync on local changes. Events are debounced and passes never overlap:
+ * changes made during a pass trigger one more pass afterwards.
+ */
+function watchAndSync(context: SyncContext, debounceMs: number): Promise<void> {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let running = false;
+  let pending = false;
+
+  const run = async (): Promise<void> => {
+    if (running) {
+      pending = true;
+      return;
+    }
+    running = true;
+    try {
+      await syncOnce(context);
+    } catch (error) {
+      // Keep watching; the next change retries
+      printCloudError(error);
+    } finally {
+      running = false;
+      if (pending) {
+        pending = false;
+        schedule();
+      }
+    }
+  };
+
+  const schedule = (): void => {
+    clearTimeout(timer);
+    timer = setTimeout(run, debounceMs);
+  };
+
+  const watcher = watch(context.localDir, { recursive: true }, (_event, filename) => {
+    if (filename && isExcluded(filename.toString(), context.excludes)) return;
+    schedule();
+  });
+
+  console.log(chalk.blue(`👀 Watching ${context.localDir} for changes (Ctrl+C to stop)`));
+
+  return new Promise((resolvePromise) => {
+    process.once('SIGINT', () => {
+      clearTimeout(timer);
+      watcher.close();
+      console.log(chalk.blue('\nℹ️  Stopped watching.'));
+      resolvePromise();
+    });
+  });
+}
+
+/**
+ * Upload the files of a local directory that changed since the last sync to a cloud host,
+ * then optionally keep watching and re-syncing
+ */
+export async function cloudSync(
+  localDir: string,
+  remoteDir: string | undefined,
+  options: CloudSyncOptions
+): Promise<void> {
+  try {
+    const root = resolve(expandHome(localDir));
+    if (!existsSync(root) || !statSync(root).isDirectory()) {
+      throw new Error(`Local directory not found: ${root}`);
+    }
+
+    const debounceMs = options.debounce ? Number(options.debounce) : DEFAULT_DEBOUNCE_MS;
+    if (!Number.isInteger(debounceMs) || debounceMs < 0) {
+      throw new Error(`Invalid --debounce value: ${options.debounce}`);
+    }
+    if (options.watch && options.dryRun) {
+      throw new Error('--watch cannot be combined with --dry-run');
+    }
+
+    const remote = normalizeRemoteDir(remoteDir ?? basename(root));
+    if (options.delete && isUnsafeDeleteDir(remote)) {
+      throw new Error(
+        `Refusing --delete in ${remoteDir ?? remote}: pass a subdirectory of the remote home instead`
+      );
+    }
+    if (options.delete && !options.yes && !options.dryRun && !process.stdin.isTTY) {
+      throw new Error('--delete needs --yes to delete remote files without a terminal');
+    }
+
+    const excludes = [...DEFAULT_EXCLUDES, ...splitList(options.exclude)];
+
+    const target = await resolveCloudTarget(options);
+    const keyPath = validatePrivateKey(target.cloudConfig.privateKeyFile);
+
+    if (!(await confirmProductionAccess([target], options.yesProd))) {
+      console.log(chalk.yellow('⏸️  Production operation cancelled.'));
+      return;
+    }
+
+    const context: SyncContext = {
+      target,
+      keyPath,
+      localDir: root,
+      remoteDir: remote,
+      excludes,
+      manifestPath: getManifestPath(target, root, remote),
+      options,
+    };
+
+    console.log(chalk.blue(`🔄 Syncing ${root} to ${formatTargetLabel(target)}:${remote}...`));
+    await syncOnce(context);
+
+    if (options.watch) {
+      await watchAndSync(context, debounceMs);
+    }
+  } catch (error) {
+    printCloudError(error);
+    process.exitCode = 1;
+  }
+}
@@ -0,0 +1,367 @@
+import inquirer from 'inquirer';
+import chalk from 'chalk';
+import { execFileSync, spawn } from 'child_process';
+import { existsSync, mkdirSync, openSync, readFileSync, writeFileSync } from 'fs';
+import { connect } from 'net';
+import { join } from 'path';
+import { $ } from 'zx';
+import {
+  CloudCommandError,
+  confirmProductionAccess,
+  getYirenConfig,
+  handleSSHError,
+  printCloudError,
+  promptForService,
+  resolveCloudTarget,
+  sshDestination,
+  sshOptions,
+  validatePrivateKey,
+} from './index.js';
+import { appendAuditEntry } from './audit.js';
+import { ensureAiDir } from '../../util.js';
+import { isProcessAlive } from '../../config/store.js';
+import {
+  CloudLoginError,
+  type CloudTunnelOptions,
+  type TunnelPreset,
+  type TunnelRecord,
+} from '../../types/index.js';
+
+const DEFAULT_REMOTE_HOST = 'localhost';
+const BACKGROUND_START_TIMEOUT_MS = 15000;
+
+const getTunnelRegistryPath = (): string => join(ensureAiDir(), 'tunnels.json');
+
+const getTunnelLogDir = (): string => {
+  const dir = join(ensureAiDir(), 'tunnels');
+  mkdirSync(dir, { recursive: true });
+  return dir;
+};
+
+// The process's command line, or undefined when it cannot be read (e.g. it has exited)
+const readCommandLine = (pid: number): string | undefined => {
+  const procFile = `/proc/${pid}/cmdline`;
+  if (existsSync(procFile)) {
+    try {
+      return readFileSync(procFile, 'utf-8').split('\0').join(' ').trim();
+    } catch {
+      return undefined;
+    }
+  }
+  try {
+    return execFileSync('ps', ['-o', 'args=', '-p', String(pid)], { encoding: 'utf-8' }).trim();
+  } catch {
+    return undefined;
+  }
+};
+
+/**
+ * Whether the record's pid is still our `ssh -N -L <forward>` process. After a reboot
+ * or once the pid is reused, it belongs to something else that must not be signalled.
+ */
+const isTunnelProcess = (record: TunnelRecord): boolean => {
+  if (!isProcessAlive(record.pid, { ownOnly: true })) return false;
+  const args = readCommandLine(record.pid)?.split(/\s+/) ?? [];
+  const forward = `${record.localPort}:${record.remoteHost}:${record.remotePort}`;
+  return (
+    /(^|\/)ssh$/.test(args[0] ?? '') &&
+    args.some((arg, i) => arg === '-L' && args[i + 1] === forward)
+  );
+};
+
+/**
+ * Read the background tunnel registry, dropping entries that are no longer our tunnel
+ * process (exited, or the pid now belongs to another process)
+ */
+export const readTunnelRegistry = (): TunnelRecord[] => {
+  const registryPath = getTunnelRegistryPath();
+  if (!existsSync(registryPath)) return [];
+
+  let records: TunnelRecord[];
+  try {
+    const parsed = JSON.parse(readFileSync(registryPath, 'utf-8'));
+    records = Array.isArray(parsed) ? parsed : [];
+  } catch {
+    records = [];
+  }
+
+  const alive = records.filter(isTunnelProcess);
+  if (alive.length !== records.length) {
+    writeTunnelRegistry(alive);
+  }
+  return alive;
+};
+
+const writeTunnelRegistry = (records: TunnelRecord[]): void => {
+  writeFileSync(getTunnelRegistryPath(), JSON.stringify(records, null, 2), 'utf-8');
+};
+
+const parsePort = (value: string | number | undefined, flag: string): number | undefined => {
+  if (value === undefined) return undefined;
+  const port = Number(value);
+  if (!Number.isInteger(port) || port < 1 || port > 65535) {
+    throw new Error(`Invalid ${flag} port: ${value}`);
+  }
+  return port;
+};
+
+// Resolves once something accepts connections on the local port
+const canConnect = (port: number): Promise<boolean> =>
+  new Promise((resolve) => {
+    const socket = connect({ port, host: '127.0.0.1' });
+    socket.once('connect', () => {
+      socket.destroy();
+      resolve(true);
+    });
+    socket.once('error', () => resolve(false));
+  });
+
+async function selectPreset(
+  service: string,
+  presetName: string | undefined,
+  options: CloudTunnelOptions
+): Promise<{ name?: string; preset?: TunnelPreset }> {
+  const presets = getYirenConfig()[service]?.tunnels ?? {};
+
+  if (presetName) {
+    const preset = presets[presetName];
+    if (!preset) {
+      throw new CloudCommandError({
+        type: CloudLoginError.INVALID_CONFIG,
+        message: `Tunnel preset '${presetName}' not found for service '${service}'`,
+        suggestion: Object.keys(presets).length
+          ? `Available presets: ${Object.keys(presets).join(', ')}`
+          : `Define presets under yiren.${service}.tunnels in ~/.ai/config.json`,
+      });
+    }
+    return { name: presetName, preset };
+  }
+
+  // No preset and no ports given: offer the service's presets
+  if (options.local === undefined && options.remote === undefined) {
+    const names = Object.keys(presets);
+    if (names.length === 0) {
+      throw new Error('Specify --remote <port> (and optionally --local <port>) or a preset name');
+    }
+    const { name } = await inquirer.prompt([
+      {
+        type: 'list',
+        name: 'name',
+        message: 'Select tunnel preset:',
+        choices: names.map((n) => ({
+          name: `${n} (localhost:${presets[n].local} → ${presets[n].remoteHost ?? DEFAULT_REMOTE_HOST}:${presets[n].remote})`,
+          value: n,
+        })),
+      },
+    ]);
+    return { name, preset: presets[name] };
+  }
+
+  return {};
+}
+
+async function startBackgroundTunnel(args: string[], record: Omit<TunnelRecord, 'pid'>) {
+  // Otherwise the readiness probe below would succeed against whatever already listens there
+  if (await canConnect(record.localPort)) {
+    throw new Error(`localhost:${record.localPort} is already in use`);
+  }
+
+  const logFd = openSync(record.logFile, 'w');
+
+  // zx cannot detach a process from the CLI's lifetime, so spawn directly
+  const child = spawn('ssh', args, { detached: true, stdio: ['ignore', logFd, logFd] });
+  child.unref();
+
+  if (!child.pid) {
+    throw new Error('Failed to start ssh in the background');
+  }
+  const pid = child.pid;
+
+  const startedAt = Date.now();
+  while (Date.now() - startedAt < BACKGROUND_START_TIMEOUT_MS) {
+    if (!isProcessAlive(pid, { ownOnly: true })) {
+      const log = readFileSync(record.logFile, 'utf-8').trim();
+      throw new Error(`Tunnel exited during startup${log ? `:\n${log}` : ''}`);
+    }
+    if (await canConnect(record.localPort)) {
+      writeTunnelRegistry([...readTunnelRegistry(), { ...record, pid }]);
+      return pid;
+    }
+    await new Promise((resolve) => setTimeout(resolve, 300));
+  }
+
+  process.kill(pid, 'SIGTERM');
+  throw new Error(
+    `Tunnel did not open localhost:${record.localPort} in time; see ${record.logFile}`
+  );
+}
+
+/**
+ * Open an SSH local port forward to a service host, in the foreground or as a background process
+ */
+export async function cloudTunnel(
+  presetName: string | undefined,
+  options: CloudTunnelOptions
+): Promise<void> {
+  try {
+    const service = options.service ?? (await promptForService(Object.keys(getYirenConfig())));
+    const { name, preset } = await selectPreset(service, presetName, options);
+
+    const remotePort = parsePort(options.remote ?? preset?.remote, '--remote');
+    if (remotePort === undefined) {
+      throw new Error('Missing --remote <port>');
+    }
+    const localPort = parsePort(options.local ?? preset?.local, '--local') ?? remotePort;
+    const remoteHost = options.remoteHost ?? preset?.remoteHost ?? DEFAULT_REMOTE_HOST;
+
+    const target = await resolveCloudTarget({ service, env: options.env ?? preset?.env });
+    const keyPath = validatePrivateKey(target.cloudConfig.privateKeyFile);
+
+    if (!(await confirmProductionAccess([target], options.yesProd))) {
+      console.log(chalk.yellow('⏸️  Production operation cancelled.'));
+      return;
+    }
+
+    const existing = readTunnelRegistry().find((record) => record.localPort === localPort);
+    if (existing) {
+      throw new Error(`localhost:${localPort} is already forwarded by tunnel ${existing.id}`);
+    }
+
+    const forward = `${localPort}:${remoteHost}:${remotePort}`;
+    const args = [
+      '-N',
+      '-L',
+      forward,
+      ...sshOptions(target.cloudConfig, keyPath),
+      '-o',
+      'ExitOnForwardFailure=yes',
+      '-o',
+      'ServerAliveInterval=30',
+      sshDestination(target.cloudConfig),
+    ];
+    const description = `localhost:${localPort} → ${target.service} (${target.environment}) ${remoteHost}:${remotePort}`;
+
+    appendAuditEntry({
+      action: 'tunnel',
+      service: target.service,
+      environment: target.environment,
+      host: sshDestination(target.cloudConfig),
+      command: `ssh -N -L ${forward}`,
+    });
+
+    if (options.background) {
+      const id = `${target.service}-${target.environment}-${localPort}`;
+      const pid = await startBackgroundTunnel(args, {
+        id,
+        service: target.service,
+        environment: target.environment,
+        host: target.cloudConfig.ip,
+        localPort,
+        remoteHost,
+        remotePort,
+        preset: name,
+        logFile: join(getTunnelLogDir(), `${id}.log`),
+        startedAt: Date.now(),
+      });
+      console.log(
+        chalk.green(`✅ Tunnel ${id} running in background (pid ${pid}): ${description}`)
+      );
+      console.log(chalk.gray(`   Stop it with: ai cloud tunnel stop ${id}`));
+      return;
+    }
+
+    console.log(chalk.blue(`🔌 Forwarding ${description} (Ctrl+C to stop)`));
+    try {
+      await $`ssh ${args}`.stdio('inherit', 'inherit', 'pipe');
+    } catch (error) {
+      throw handleSSHError(error, target);
+    }
+  } catch (error) {
+    printCloudError(error);
+    process.exitCode = 1;
+  }
+}
+
+const formatUptime = (startedAt: number): string => {
+  const minutes = Math.floor((Date.now() - startedAt) / 60000);
+  if (minutes < 60) return `${minutes}m`;
+  const hours = Math.floor(minutes / 60);
+  return hours < 24 ? `${hours}h${minutes % 60}m` : `${Math.floor(hours / 24)}d${hours % 24}h`;
+};
+
+export async function listTunnels(): Promise<void> {
+  const records = readTunnelRegistry();
+  if (records.length === 0) {
+    console.log(chalk.yellow('No background tunnels running.'));
+    return;
+  }
+
+  for (const record of records) {
+    const preset = record.preset ? chalk.gray(` [${record.preset}]`) : '';
+    console.log(
+      `${chalk.cyan(record.id)}${preset}  pid ${record.pid}  ` +
+        `localhost:${record.localPort} → ${record.host} ${record.remoteHost}:${record.remotePort}  ` +
+        chalk.gray(`up ${formatUptime(record.startedAt)}`)
+    );
+  }
+}
+
+/**
+ * Stop background tunnels by id, local port or preset name; prompts when none is given
+ */
+export async function stopTunnels(selector?: string, options?: { all?: boolean }): Promise<void> {
+  try {
+    const records = readTunnelRegistry();
+    if (records.length === 0) {
+      console.log(chalk.yellow('No background tunnels running.'));
+      return;
+    }
+
+    let selected: TunnelRecord[];
+    if (options?.all) {
+      selected = records;
+    } else if (selector) {
+      selected = records.filter(
+        (record) =>
+          record.id === selector ||
+          String(record.localPort) === selector ||
+          record.preset === selector
+      );
+      if (selected.length === 0) {
+        throw new Error(`No running tunnel matches "${selector}"`);
+      }
+    } else {
+      const { ids } = await inquirer.prompt([
+        {
+          type: 'checkbox',
+          name: 'ids',
+          message: 'Select tunnels to stop:',
+          choices: records.map((record) => ({
+            name: `${record.id} (localhost:${record.localPort})`,
+            value: record.id,
+          })),
+        },
+      ]);
+      selected = records.filter((record) => ids.includes(record.id));
+    }
+
+    for (const record of selected) {
+      // Checked again right before signalling, as the prompt may have taken a while
+      if (!isTunnelProcess(record)) {
+        console.log(chalk.yellow(`⚠️  Tunnel ${record.id} is no longer running`));
+        continue;
+      }
+      try {
+        process.kill(record.pid, 'SIGTERM');
+      } catch {
+        // Exited in the meantime; the registry entry is dropped below either way
+      }
+      console.log(chalk.green(`✅ Stopped tunnel ${record.id}`));
+    }
+
+    writeTunnelRegistry(records.filter((record) => !selected.includes(record)));
+  } catch (error) {
+    printCloudError(error);
+    process.exitCode = 1;
+  }
+}
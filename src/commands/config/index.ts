@@ -0,0 +1,285 @@
+import inquirer from 'inquirer';
+import chalk from 'chalk';
+import { readFileSync, rmSync, mkdtempSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { $ } from 'zx';
+import {
+  describeCommand,
+  getConfigPath,
+  readConfig,
+  readConfigLayers,
+  saveConfig,
+  updateConfig,
+} from '../../util.js';
+import { flattenConfig, mergeConfigLayers, resolveOrigins } from '../../config/layers.js';
+import { migrateConfig } from '../../config/migrations.js';
+import { getAtPath, parseConfigPath, setAtPath, unsetAtPath } from '../../config/paths.js';
+import { ConfigValidationError, validateConfig } from '../../config/schema.js';
+import {
+  backupFile,
+  readBackup,
+  readBackupHistory,
+  withFileLock,
+  writeFileAtomic,
+} from '../../config/store.js';
+import type { HshConfig } from '../../types/index.js';
+
+// Values hidden by `ai config show --redact`
+const SECRET_KEY_PATTERN = /privateKeyFile|identityFile|password|secret|token/i;
+const REDACTED = '<redacted>';
+
+const formatTime = (timestamp: number): string =>
+  new Date(timestamp).toLocaleString(undefined, { hour12: false });
+
+/**
+ * List recorded config changes, newest first; `ai config undo <n>` reverts the newest n
+ */
+export async function configHistory(): Promise<void> {
+  const history = readBackupHistory(getConfigPath()).reverse();
+
+  if (history.length === 0) {
+    console.log(chalk.yellow('⚠️  No config changes recorded yet.'));
+    return;
+  }
+
+  const width = String(history.length).length;
+  history.forEach((entry, index) => {
+    console.log(
+      `${chalk.cyan(String(index + 1).padStart(width))}  ${chalk.gray(formatTime(entry.createdAt))}  ${entry.command}`
+    );
+  });
+  console.log(chalk.gray(`\nRevert the newest n changes with: ai config undo <n>`));
+}
+
+/**
+ * Restore the config as it was before the newest `steps` changes. The restore is itself
+ * recorded, so it can be undone in turn.
+ */
+export async function configUndo(steps?: string, options?: { yes?: boolean }): Promise<void> {
+  try {
+    const count = steps === undefined ? 1 : Number(steps);
+    const configPath = getConfigPath();
+    const history = readBackupHistory(configPath);
+
+    if (!Number.isInteger(count) || count < 1) {
+      throw new Error(`Invalid number of changes: ${steps}`);
+    }
+    if (history.length === 0) {
+      console.log(chalk.yellow('⚠️  No config changes recorded yet; nothing to undo.'));
+      return;
+    }
+    if (count > history.length) {
+      throw new Error(`Only ${history.length} change(s) are recorded`);
+    }
+
+    const reverted = history.slice(-count).reverse();
+    console.log(chalk.bold(`Reverting ${count} change(s):`));
+    reverted.forEach((entry) =>
+      console.log(`  ${chalk.gray(formatTime(entry.createdAt))}  ${entry.command}`)
+    );
+
+    if (!options?.yes) {
+      const { confirmed } = await inquirer.prompt([
+        { type: 'confirm', name: 'confirmed', message: 'Restore the config?', default: true },
+      ]);
+      if (!confirmed) {
+        console.log(chalk.blue('ℹ️  Operation cancelled.'));
+        return;
+      }
+    }
+
+    const target = reverted[reverted.length - 1];
+    const content = readBackup(configPath, target);
+    withFileLock(configPath, () => {
+      backupFile(configPath, describeCommand());
+      writeFileAtomic(configPath, content);
+    });
+
+    console.log(chalk.green(`✅ Restored ${configPath} to before "${target.command}"`));
+  } catch (error) {
+    console.error(chalk.red(`❌ ${error instanceof Error ? error.message : String(error)}`));
+    process.exitCode = 1;
+  }
+}
+
+const redact = (value: unknown, key = ''): unknown => {
+  if (SECRET_KEY_PATTERN.test(key) && value !== undefined) return REDACTED;
+  if (Array.isArray(value)) return value.map((item) => redact(item));
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, redact(v, k)]));
+  }
+  return value;
+};
+
+/**
+ * Print the effective config; with `origin`, one line per value naming the file it came from.
+ * `redact` hides secrets such as private key paths.
+ */
+export async function configShow(options?: { origin?: boolean; redact?: boolean }): Promise<void> {
+  const config = options?.redact ? (redact(readConfig()) as HshConfig) : readConfig();
+
+  if (!options?.origin) {
+    console.log(JSON.stringify(config, null, 2));
+    return;
+  }
+
+  const layers = readConfigLayers();
+  const origins = resolveOrigins(layers);
+  for (const [path, value] of flattenConfig(config)) {
+    const origin = origins.get(path);
+    const layer = layers.find((candidate) => candidate.path === origin);
+    const label = layer ? `${origin}${layer.readonly ? ' (included)' : ''}` : '(default)';
+    console.log(`${path} = ${JSON.stringify(value)}  ${chalk.gray(`# ${label}`)}`);
+  }
+}
+
+const printError = (error: unknown): void => {
+  if (error instanceof ConfigValidationError) {
+    console.error(chalk.red('❌ The change would make the config invalid:'));
+    error.issues.forEach((issue) => console.error(chalk.red(`   - ${issue}`)));
+  } else {
+    console.error(chalk.red(`❌ ${error instanceof Error ? error.message : String(error)}`));
+  }
+  process.exitCode = 1;
+};
+
+/**
+ * Validate the effective config as it would be with `personal` in place of the personal file
+ */
+const validatePersonal = (personal: HshConfig): void => {
+  const layers = readConfigLayers();
+  layers[layers.length - 1] = { ...layers[layers.length - 1], config: personal };
+  validateConfig(mergeConfigLayers(layers));
+};
+
+const formatValue = (value: unknown): string =>
+  typeof value === 'string' ? value : JSON.stringify(value, null, 2);
+
+/**
+ * Print one value of the effective config, e.g. `ai config get yiren.todo-mini.prod.ip`
+ */
+export async function configGet(path: string): Promise<void> {
+  try {
+    const value = getAtPath(readConfig(), parseConfigPath(path));
+    if (value === undefined) {
+      throw new Error(`${path} is not set`);
+    }
+    console.log(formatValue(value));
+  } catch (error) {
+    printError(error);
+  }
+}
+
+/**
+ * Set a value in the personal file. The value is read as JSON when that yields a valid
+ * config (numbers, booleans, arrays, objects) and as a plain string otherwise.
+ */
+export async function configSet(path: string, value: string): Promise<void> {
+  try {
+    const segments = parseConfigPath(path);
+    const candidates: unknown[] = [value];
+    try {
+      candidates.unshift(JSON.parse(value));
+    } catch {
+      // Not JSON: only the string form is a candidate
+    }
+
+    const saved = updateConfig((config) => {
+      const errors: unknown[] = [];
+      for (const candidate of candidates) {
+        const updated = structuredClone(config);
+        setAtPath(updated as unknown as Record<string, unknown>, segments, candidate);
+        try {
+          validatePersonal(updated);
+          return updated;
+        } catch (error) {
+          errors.push(error);
+        }
+      }
+      // Report the most specific reading: the parsed JSON value if there was one
+      throw errors[0];
+    });
+
+    console.log(chalk.green(`✅ Set ${path} = ${JSON.stringify(getAtPath(saved, segments))}`));
+  } catch (error) {
+    printError(error);
+  }
+}
+
+export async function configUnset(path: string): Promise<void> {
+  try {
+    const segments = parseConfigPath(path);
+    const layers = readConfigLayers();
+    const personal = layers[layers.length - 1];
+
+    if (getAtPath(personal.config, segments) === undefined) {
+      const included = layers.find((layer) => getAtPath(layer.config, segments) !== undefined);
+      throw new Error(
+        included
+          ? `${path} comes from ${included.path} (included, read-only) and cannot be unset`
+          : `${path} is not set`
+      );
+    }
+
+    updateConfig((config) => {
+      unsetAtPath(config as unknown as Record<string, unknown>, segments);
+    });
+    console.log(chalk.green(`✅ Unset ${path}`));
+  } catch (error) {
+    printError(error);
+  }
+}
+
+/**
+ * Open the personal file in $VISUAL/$EDITOR on a temporary copy; it is only saved
+ * back once it parses and validates, otherwise the editor can be reopened
+ */
+export async function configEdit(): Promise<void> {
+  const configPath = getConfigPath();
+  const editor = (process.env.VISUAL || process.env.EDITOR || 'vi').split(/\s+/);
+  const editDir = mkdtempSync(join(tmpdir(), 'ai-config-'));
+  const editPath = join(editDir, 'config.json');
+
+  try {
+    const original = readFileSync(configPath, 'utf-8');
+    writeFileSync(editPath, original, 'utf-8');
+
+    for (;;) {
+      await $`${editor} ${editPath}`.stdio('inherit', 'inherit', 'inherit').quiet();
+      const edited = readFileSync(editPath, 'utf-8');
+      if (edited === original) {
+        console.log(chalk.blue('ℹ️  No changes.'));
+        return;
+      }
+
+      try {
+        let parsed: unknown;
+        try {
+          parsed = JSON.parse(edited);
+        } catch (error) {
+          throw new Error(`Invalid JSON: ${(error as Error).message}`);
+        }
+        const { config } = migrateConfig(parsed);
+        validatePersonal(config as HshConfig);
+        saveConfig(config as HshConfig);
+        console.log(chalk.green(`✅ Saved ${configPath}`));
+        return;
+      } catch (error) {
+        printError(error);
+        const { reopen } = await inquirer.prompt([
+          { type: 'confirm', name: 'reopen', message: 'Reopen the editor?', default: true },
+        ]);
+        if (!reopen) {
+          console.log(chalk.yellow(`Discarded changes; ${configPath} is unchanged.`));
+          return;
+        }
+        process.exitCode = 0;
+      }
+    }
+  } catch (error) {
+    printError(error);
+  } finally {
+    rmSync(editDir, { recursive: true, force: true });
+  }
+}
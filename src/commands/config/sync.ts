@@ -0,0 +1,251 @@
+import chalk from 'chalk';
+import { existsSync, rmSync, writeFileSync } from 'fs';
+import { hostname } from 'os';
+import { join } from 'path';
+import { $, ProcessOutput } from 'zx';
+import { ensureAiDir, readConfigLayers, updateConfig } from '../../util.js';
+import { normalizeConfig } from '../../config/schema.js';
+import type { HshConfig } from '../../types/index.js';
+
+type JsonObject = Record<string, unknown>;
+
+// Fields that only make sense on one machine; the repo stores a per-host template instead
+const MACHINE_FIELDS = ['workingDirectory', 'workingDirectories', 'include'] as const;
+// Sections merged entry by entry, so edits to different keys on two machines both survive
+const MAP_SECTIONS = ['repos', 'yiren', 'urls', 'urlGroups'];
+
+const CONFIG_FILE = 'config.json';
+const HOSTS_FILE = 'hosts.json';
+const LAST_SYNC_REF = 'refs/ai-summon/last-sync';
+
+const getSyncDir = (): string => join(ensureAiDir(), 'config-sync');
+const getHostName = (): string => hostname();
+
+// Key-order independent comparison
+const canonical = (value: unknown): string =>
+  JSON.stringify(value, (_key, item) =>
+    item && typeof item === 'object' && !Array.isArray(item)
+      ? Object.fromEntries(Object.entries(item).sort(([a], [b]) => a.localeCompare(b)))
+      : item
+  );
+const same = (a: unknown, b: unknown): boolean => canonical(a) === canonical(b);
+
+const git = (dir: string, args: string[]) => $`git -C ${dir} ${args}`.quiet();
+
+/**
+ * Split a config into the part stored in the repo (machine fields replaced by
+ * `{{host.<field>}}` templates) and this machine's values for those fields
+ */
+function toShared(config: HshConfig): { shared: JsonObject; machine: JsonObject } {
+  const shared: JsonObject = { ...config };
+  const machine: JsonObject = {};
+  for (const field of MACHINE_FIELDS) {
+    if (config[field] === undefined) continue;
+    machine[field] = config[field];
+    shared[field] = `{{host.${field}}}`;
+  }
+  delete shared.version;
+  return { shared, machine };
+}
+
+/**
+ * Resolve templates for this machine: local values win, then the values this host pushed earlier
+ */
+function fromShared(shared: JsonObject, local: HshConfig, hostValues: JsonObject): HshConfig {
+  const config: JsonObject = { ...shared };
+  for (const field of MACHINE_FIELDS) {
+    const value = local[field] ?? hostValues[field];
+    if (value === undefined) delete config[field];
+    else config[field] = value;
+  }
+  return normalizeConfig(config as unknown as HshConfig);
+}
+
+const CONFLICT = Symbol('conflict');
+
+const mergeValue = (base: unknown, local: unknown, remote: unknown): unknown => {
+  if (same(local, remote) || same(remote, base)) return local;
+  if (same(local, base)) return remote;
+  return CONFLICT;
+};
+
+/**
+ * Three-way merge of the shared config: map sections key by key, everything else as a whole.
+ * When both sides changed the same entry, the local value wins and the path is reported.
+ */
+function mergeShared(
+  base: JsonObject,
+  local: JsonObject,
+  remote: JsonObject,
+  conflicts: string[]
+): JsonObject {
+  const merged: JsonObject = {};
+  const keys = [...new Set([...Object.keys(local), ...Object.keys(remote)])];
+
+  for (const key of keys) {
+    if (MAP_SECTIONS.includes(key)) {
+      const baseMap = (base[key] ?? {}) as JsonObject;
+      const localMap = (local[key] ?? {}) as JsonObject;
+      const remoteMap = (remote[key] ?? {}) as JsonObject;
+      const section: JsonObject = {};
+      for (const name of new Set([...Object.keys(localMap), ...Object.keys(remoteMap)])) {
+        const value = mergeValue(baseMap[name], localMap[name], remoteMap[name]);
+        if (value === CONFLICT) conflicts.push(`${key}.${name}`);
+        const resolved = value === CONFLICT ? localMap[name] : value;
+        if (resolved !== undefined) section[name] = resolved;
+      }
+      merged[key] = section;
+      continue;
+    }
+
+    const value = mergeValue(base[key], local[key], remote[key]);
+    if (value === CONFLICT) conflicts.push(key);
+    const resolved = value === CONFLICT ? local[key] : value;
+    if (resolved !== undefined) merged[key] = resolved;
+  }
+
+  return merged;
+}
+
+const readJsonAt = async (dir: string, rev: string, file: string): Promise<JsonObject> => {
+  const output = await $`git -C ${dir} show ${`${rev}:${file}`}`.quiet().nothrow();
+  return output.exitCode === 0 ? (JSON.parse(output.stdout) as JsonObject) : {};
+};
+
+const resolveRef = async (dir: string, ref: string): Promise<string | undefined> => {
+  const output = await $`git -C ${dir} rev-parse --verify --quiet ${`${ref}^{commit}`}`
+    .quiet()
+    .nothrow();
+  return output.exitCode === 0 ? output.stdout.trim() : undefined;
+};
+
+const getBranch = async (dir: string): Promise<string> =>
+  (await git(dir, ['symbolic-ref', '--short', 'HEAD'])).stdout.trim();
+
+const ensureSyncRepo = (): string => {
+  const dir = getSyncDir();
+  if (!existsSync(join(dir, '.git'))) {
+    throw new Error('Config sync is not set up; run "ai config sync init <git-remote-or-path>"');
+  }
+  return dir;
+};
+
+const readPersonalConfig = (): HshConfig => normalizeConfig(readConfigLayers().at(-1)!.config);
+
+/**
+ * Fetch the repo and merge its config into the personal file.
+ * Returns whether the local config has changes the remote does not.
+ */
+async function pullInto(dir: string): Promise<boolean> {
+  const branch = await getBranch(dir);
+  await git(dir, ['fetch', '--quiet', 'origin']);
+  const remoteTip = await resolveRef(dir, `refs/remotes/origin/${branch}`);
+  const lastSync = await resolveRef(dir, LAST_SYNC_REF);
+
+  const local = readPersonalConfig();
+  const remote = remoteTip ? await readJsonAt(dir, remoteTip, CONFIG_FILE) : {};
+  const base = lastSync ? await readJsonAt(dir, lastSync, CONFIG_FILE) : {};
+  const hosts = remoteTip ? await readJsonAt(dir, remoteTip, HOSTS_FILE) : {};
+
+  const conflicts: string[] = [];
+  const localShared = toShared(local).shared;
+  const merged = fromShared(
+    mergeShared(base, localShared, remote, conflicts),
+    local,
+    (hosts[getHostName()] ?? {}) as JsonObject
+  );
+
+  // `version` is stamped on write and never part of the repo copy
+  if (!same({ ...local, version: undefined }, merged)) {
+    updateConfig(() => merged);
+    console.log(chalk.green('✅ Merged remote config changes'));
+  } else {
+    console.log(chalk.green('✅ Local config already has the remote changes'));
+  }
+  conflicts.forEach((path) =>
+    console.log(chalk.yellow(`⚠️  ${path} was changed on both sides; kept the local value`))
+  );
+
+  if (remoteTip) {
+    await git(dir, ['reset', '--hard', '--quiet', remoteTip]);
+    await git(dir, ['update-ref', LAST_SYNC_REF, remoteTip]);
+  }
+
+  return !same(toShared(merged).shared, remote);
+}
+
+async function pushFrom(dir: string): Promise<void> {
+  const needsPush = await pullInto(dir);
+  const branch = await getBranch(dir);
+  const { shared, machine } = toShared(readPersonalConfig());
+
+  const hosts = await readJsonAt(dir, 'HEAD', HOSTS_FILE);
+  const hostChanged = !same(hosts[getHostName()], machine);
+  if (!needsPush && !hostChanged) {
+    console.log(chalk.green('✅ Remote is up to date; nothing to push'));
+    return;
+  }
+
+  hosts[getHostName()] = machine;
+  writeFileSync(join(dir, CONFIG_FILE), JSON.stringify(shared, null, 2) + '\n', 'utf-8');
+  writeFileSync(join(dir, HOSTS_FILE), JSON.stringify(hosts, null, 2) + '\n', 'utf-8');
+
+  await git(dir, ['add', CONFIG_FILE, HOSTS_FILE]);
+  await git(dir, ['commit', '--quiet', '-m', `Update ai config from ${getHostName()}`]);
+  await git(dir, ['push', '--quiet', 'origin', `HEAD:${branch}`]);
+  await git(dir, ['update-ref', LAST_SYNC_REF, 'HEAD']);
+  console.log(chalk.green(`✅ Pushed config to ${branch}`));
+}
+
+const printSyncError = (error: unknown): void => {
+  const message =
+    error instanceof ProcessOutput
+      ? error.stderr.trim() || `git exited with code ${error.exitCode}`
+      : error instanceof Error
+        ? error.message
+        : String(error);
+  console.error(chalk.red(`❌ ${message}`));
+  process.exitCode = 1;
+};
+
+/**
+ * Clone the sync repository, then merge it into the local config and push anything missing
+ */
+export async function configSyncInit(remote: string, options?: { force?: boolean }): Promise<void> {
+  const dir = getSyncDir();
+  try {
+    if (existsSync(dir)) {
+      if (!options?.force) {
+        throw new Error(`${dir} already exists; pass --force to replace it`);
+      }
+      rmSync(dir, { recursive: true, force: true });
+    }
+
+    await $`git clone --quiet ${remote} ${dir}`.quiet();
+    console.log(chalk.green(`✅ Cloned ${remote} into ${dir}`));
+    await pushFrom(dir);
+  } catch (error) {
+    printSyncError(error);
+  }
+}
+
+export async function configSyncPull(): Promise<void> {
+  try {
+    const needsPush = await pullInto(ensureSyncRepo());
+    if (needsPush) {
+      console.log(
+        chalk.blue('ℹ️  Local config has changes not in the repo; run "ai config sync push"')
+      );
+    }
+  } catch (error) {
+    printSyncError(error);
+  }
+}
+
+export async function configSyncPush(): Promise<void> {
+  try {
+    await pushFrom(ensureSyncRepo());
+  } catch (error) {
+    printSyncError(error);
+  }
+}
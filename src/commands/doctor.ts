@@ -0,0 +1,462 @@
+import chalk from 'chalk';
+import { accessSync, constants, existsSync, readFileSync, statSync } from 'fs';
+import { platform } from 'os';
+import { dirname, resolve } from 'path';
+import { which } from 'zx';
+import {
+  expandHome,
+  findLauncher,
+  findMacApp,
+  formatAge,
+  getConfigPath,
+  getWorkingDirectories,
+  readIdeReposCacheFile,
+} from '../util.js';
+import { mergeConfigLayers } from '../config/layers.js';
+import { migrateConfig } from '../config/migrations.js';
+import { ConfigValidationError, normalizeConfig, validateConfig } from '../config/schema.js';
+import { getCloudConfig, getServiceEnvironments } from './cloud/index.js';
+import type {
+  ConfigLayer,
+  DoctorCheckResult,
+  DoctorCheckStatus,
+  DoctorOptions,
+  HshConfig,
+} from '../types/index.js';
+
+// Older caches still work but may be missing repositories cloned since
+const CACHE_MAX_AGE_MS = 7 * 24 * 60 * 60 * 1000;
+
+const STATUS_ICONS: Record<DoctorCheckStatus, string> = {
+  pass: chalk.green('✅'),
+  warn: chalk.yellow('⚠️ '),
+  fail: chalk.red('❌'),
+};
+
+const errorMessage = (error: unknown): string =>
+  error instanceof Error ? error.message : String(error);
+
+const parseConfigFile = (path: string): HshConfig => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(readFileSync(path, 'utf-8'));
+  } catch (error) {
+    throw new Error(`${path} is not valid JSON: ${errorMessage(error)}`);
+  }
+  return migrateConfig(raw).config as HshConfig;
+};
+
+/**
+ * Load the personal file and its includes like `readConfig`, but report problems
+ * instead of exiting, so the remaining checks still run. The config is only returned
+ * when it is valid, since the checks that read it trust its shape.
+ */
+function checkConfig(): { result: DoctorCheckResult; config?: HshConfig } {
+  const configPath = getConfigPath();
+  const result: DoctorCheckResult = {
+    id: 'config',
+    title: 'Config file',
+    status: 'pass',
+    details: [configPath],
+  };
+
+  if (!existsSync(configPath)) {
+    return {
+      result: {
+        ...result,
+        status: 'fail',
+        details: [`${configPath} does not exist`],
+        fix: 'ai init',
+      },
+    };
+  }
+
+  let personal: HshConfig;
+  try {
+    personal = parseConfigFile(configPath);
+  } catch (error) {
+    return {
+      result: {
+        ...result,
+        status: 'fail',
+        details: [errorMessage(error)],
+        fix: 'Fix it with "ai config edit", or restore the previous version with "ai config undo"',
+      },
+    };
+  }
+
+  const layers: ConfigLayer[] = [];
+  for (const file of Array.isArray(personal.include) ? personal.include : []) {
+    const includePath = resolve(dirname(configPath), expandHome(String(file)));
+    try {
+      if (!existsSync(includePath)) throw new Error(`Included config not found: ${includePath}`);
+      layers.push({ path: includePath, config: parseConfigFile(includePath), readonly: true });
+      result.details.push(`includes ${includePath}`);
+    } catch (error) {
+      result.status = 'warn';
+      result.details.push(errorMessage(error));
+      result.fix = 'Fix or remove the entry with "ai config edit"';
+    }
+  }
+  layers.push({ path: configPath, config: personal, readonly: false });
+
+  const merged = mergeConfigLayers(layers);
+  try {
+    validateConfig(merged);
+  } catch (error) {
+    if (!(error instanceof ConfigValidationError)) throw error;
+    result.status = 'fail';
+    result.details.push(...error.issues);
+    result.fix = 'ai config edit';
+    return { result };
+  }
+
+  return { result, config: normalizeConfig(merged) };
+}
+
+// Why a working directory cannot be scanned, if it cannot
+const getRootProblem = (path: string): string | undefined => {
+  if (!existsSync(path)) return 'does not exist';
+  if (!statSync(path).isDirectory()) return 'is not a directory';
+  try {
+    accessSync(path, constants.R_OK | constants.X_OK);
+  } catch {
+    return 'is not readable';
+  }
+  return undefined;
+};
+
+function checkWorkingDirectories(config: HshConfig): DoctorCheckResult {
+  const result: DoctorCheckResult = {
+    id: 'working-directories',
+    title: 'Working directories',
+    status: 'pass',
+    details: [],
+  };
+  const roots = getWorkingDirectories(config);
+
+  if (roots.length === 0) {
+    const repoCount = Object.values(config.repos).reduce(
+      (count, projects) => count + Object.keys(projects).length,
+      0
+    );
+    if (repoCount === 0) {
+      return {
+        ...result,
+        status: 'warn',
+        details: [
+          'Not set and no projects under "repos"; ai cursor / ai claude have nothing to open',
+        ],
+        fix: 'ai config set workingDirectory ~/code',
+      };
+    }
+    return { ...result, details: [`Not set; using ${repoCount} project(s) from "repos"`] };
+  }
+
+  const problems = roots.flatMap((root) => {
+    const problem = getRootProblem(root.path);
+    result.details.push(`${root.label}: ${root.path}${problem ? ` ${problem}` : ''}`);
+    return problem ? [{ root, problem }] : [];
+  });
+  if (problems.length === 0) return result;
+
+  // Unusable roots are skipped, so only fail when none is left
+  result.status = problems.length === roots.length ? 'fail' : 'warn';
+  const unreadable = problems.filter(({ problem }) => problem === 'is not readable');
+  result.fix =
+    unreadable.length === problems.length
+      ? `chmod u+rx ${unreadable.map(({ root }) => root.path).join(' ')}`
+      : 'Fix the paths with "ai config edit"';
+  return result;
+}
+
+function checkReposCache(config: HshConfig): DoctorCheckResult {
+  const result: DoctorCheckResult = {
+    id: 'repos-cache',
+    title: 'Repository cache',
+    status: 'pass',
+    details: [],
+  };
+  const roots = getWorkingDirectories(config).filter((root) => !getRootProblem(root.path));
+
+  if (roots.length === 0) {
+    return { ...result, details: ['Not used without a working directory'] };
+  }
+
+  const cache = readIdeReposCacheFile();
+  const stale: string[] = [];
+  for (const root of roots) {
+    const entry = cache.roots[root.path];
+    if (!entry) {
+      stale.push(root.label);
+      result.details.push(`${root.label}: no cache yet; the first ai cursor / ai claude scans it`);
+      continue;
+    }
+
+    const age = Date.now() - entry.updatedAt;
+    const missing = entry.repos.filter((repo) => !existsSync(repo.path));
+    result.details.push(
+      `${root.label}: ${entry.repos.length} repositories, updated ${formatAge(age)} ago`
+    );
+
+    if (age > CACHE_MAX_AGE_MS) {
+      stale.push(root.label);
+      result.details.push('  older than 7 days; recently cloned repositories may be missing');
+    } else if (missing.length > 0) {
+      stale.push(root.label);
+      result.details.push(
+        `  ${missing.length} cached repositories no longer exist (e.g. ${missing[0].path})`
+      );
+    }
+  }
+
+  if (stale.length === 0) return result;
+  return {
+    ...result,
+    status: 'warn',
+    fix:
+      stale.length === 1 && roots.length > 1
+        ? `ai cursor refresh ${stale[0]}`
+        : 'ai cursor refresh',
+  };
+}
+
+async function checkBinary(
+  id: string,
+  binary: string,
+  fix: string,
+  macApp?: string
+): Promise<DoctorCheckResult> {
+  const result: DoctorCheckResult = { id, title: `${binary} command`, status: 'pass', details: [] };
+
+  const path = await findLauncher(binary, macApp);
+  return path
+    ? { ...result, details: [path] }
+    : { ...result, status: 'warn', details: [`${binary} is not on PATH`], fix };
+}
+
+async function checkBrowser(config: HshConfig): Promise<DoctorCheckResult> {
+  const result: DoctorCheckResult = {
+    id: 'browser',
+    title: 'Browser for ai url',
+    status: 'pass',
+    details: [],
+  };
+  // Only a warning while there is nothing for `ai url` to open
+  const failStatus: DoctorCheckStatus =
+    Object.keys(config.urls ?? {}).length > 0 || Object.keys(config.urlGroups ?? {}).length > 0
+      ? 'fail'
+      : 'warn';
+
+  if (platform() !== 'darwin') {
+    return {
+      ...result,
+      status: failStatus,
+      details: [
+        `ai url opens Google Chrome with the macOS "open" command, which ${platform()} lacks`,
+      ],
+      fix: 'Use ai url on macOS',
+    };
+  }
+
+  if (!(await which('open', { nothrow: true }))) {
+    return {
+      ...result,
+      status: failStatus,
+      details: ['The "open" command is not on PATH'],
+      fix: 'Add /usr/bin to PATH',
+    };
+  }
+
+  const chrome = findMacApp('Google Chrome');
+  if (!chrome) {
+    return {
+      ...result,
+      status: failStatus,
+      details: ['Google Chrome is not installed'],
+      fix: 'Install Google Chrome from https://www.google.com/chrome/',
+    };
+  }
+
+  return { ...result, details: [chrome] };
+}
+
+/**
+ * Every privateKeyFile in yiren (including jump host keys) must exist and be private
+ */
+function checkPrivateKeys(config: HshConfig): DoctorCheckResult {
+  const result: DoctorCheckResult = {
+    id: 'private-keys',
+    title: 'SSH private keys',
+    status: 'pass',
+    details: [],
+  };
+
+  const keys = new Map<string, string[]>();
+  const addKey = (file: string | undefined, usedBy: string): void => {
+    if (!file) return;
+    const keyPath = expandHome(file);
+    keys.set(keyPath, [...(keys.get(keyPath) ?? []), usedBy]);
+  };
+
+  for (const [service, serviceConfig] of Object.entries(config.yiren)) {
+    for (const environment of getServiceEnvironments(serviceConfig)) {
+      const cloudConfig = getCloudConfig(serviceConfig, environment);
+      addKey(cloudConfig?.privateKeyFile, `${service}/${environment}`);
+      if (typeof cloudConfig?.jumpHost === 'object') {
+        addKey(cloudConfig.jumpHost.privateKeyFile, `${service}/${environment} (jump host)`);
+      }
+    }
+  }
+
+  if (keys.size === 0) {
+    return { ...result, details: ['No yiren hosts configured'] };
+  }
+
+  const missing: string[] = [];
+  const tooOpen: string[] = [];
+  for (const [keyPath, usedBy] of keys) {
+    const users = usedBy.join(', ');
+    if (!existsSync(keyPath)) {
+      missing.push(keyPath);
+      result.details.push(`${keyPath} does not exist (${users})`);
+      continue;
+    }
+    const mode = statSync(keyPath).mode & 0o777;
+    if (mode & 0o077) {
+      tooOpen.push(keyPath);
+      result.details.push(`${keyPath} is readable by others (${mode.toString(8)}) (${users})`);
+    }
+  }
+
+  if (missing.length === 0 && tooOpen.length === 0) {
+    return { ...result, details: [`${keys.size} key(s) present with safe permissions`] };
+  }
+
+  const fixes = [
+    ...(tooOpen.length > 0 ? [`chmod 600 ${tooOpen.join(' ')}`] : []),
+    ...(missing.length > 0 ? ['correct the privateKeyFile paths with "ai config edit"'] : []),
+  ];
+  return { ...result, status: 'fail', fix: fixes.join('; ') };
+}
+
+function checkUrls(config: HshConfig): DoctorCheckResult {
+  const result: DoctorCheckResult = { id: 'urls', title: 'URLs', status: 'pass', details: [] };
+  const entries = Object.entries(config.urls ?? {});
+
+  const invalid = entries.filter(([, url]) => {
+    try {
+      new URL(url);
+      return false;
+    } catch {
+      return true;
+    }
+  });
+
+  if (invalid.length === 0) {
+    return { ...result, details: [`${entries.length} URL(s) are valid`] };
+  }
+
+  const [firstName] = invalid[0];
+  return {
+    ...result,
+    status: 'fail',
+    details: invalid.map(([name, url]) => `${name}: "${url}" is not a valid URL`),
+    fix: `Include the scheme, e.g. ai config set 'urls["${firstName}"]' https://...`,
+  };
+}
+
+function printResults(results: DoctorCheckResult[]): void {
+  const width = Math.max(...results.map((result) => result.title.length));
+
+  for (const result of results) {
+    const [first = '', ...rest] = result.details;
+    console.log(`${STATUS_ICONS[result.status]} ${result.title.padEnd(width)}  ${first}`);
+    rest.forEach((line) => console.log(`   ${' '.repeat(width)}  ${line}`));
+    if (result.fix) {
+      console.log(chalk.gray(`   💡 ${result.fix}`));
+    }
+  }
+
+  const count = (status: DoctorCheckStatus) =>
+    results.filter((result) => result.status === status).length;
+  console.log(
+    `\n${chalk.green(`${count('pass')} passed`)}, ${chalk.yellow(`${count('warn')} warning(s)`)}, ` +
+      chalk.red(`${count('fail')} failed`)
+  );
+}
+
+const unexpectedFailure = (id: string, title: string, error: unknown): DoctorCheckResult => ({
+  id,
+  title,
+  status: 'fail',
+  details: [`Unexpected error: ${errorMessage(error)}`],
+});
+
+/**
+ * Run one check; an unexpected error fails that check instead of ending the report
+ */
+async function runCheck(
+  id: string,
+  title: string,
+  check: () => DoctorCheckResult | Promise<DoctorCheckResult>
+): Promise<DoctorCheckResult> {
+  try {
+    return await check();
+  } catch (error) {
+    return unexpectedFailure(id, title, error);
+  }
+}
+
+/**
+ * Check the config and everything the commands depend on; exits with 1 when a check fails
+ */
+export async function runDoctor(options: DoctorOptions): Promise<void> {
+  let checked: ReturnType<typeof checkConfig>;
+  try {
+    checked = checkConfig();
+  } catch (error) {
+    checked = { result: unexpectedFailure('config', 'Config file', error) };
+  }
+  const { result: configResult, config } = checked;
+  const results: DoctorCheckResult[] = [configResult];
+
+  if (config) {
+    results.push(
+      await runCheck('working-directories', 'Working directories', () =>
+        checkWorkingDirectories(config)
+      ),
+      await runCheck('repos-cache', 'Repository cache', () => checkReposCache(config))
+    );
+  }
+  results.push(
+    await runCheck('cursor', 'cursor command', () =>
+      checkBinary(
+        'cursor',
+        'cursor',
+        'Install Cursor, then run "Shell Command: Install \'cursor\' command" from its command palette',
+        'Cursor'
+      )
+    ),
+    await runCheck('claude', 'claude command', () =>
+      checkBinary('claude', 'claude', 'npm install -g @anthropic-ai/claude-code')
+    )
+  );
+  if (config) {
+    results.push(
+      await runCheck('browser', 'Browser for ai url', () => checkBrowser(config)),
+      await runCheck('private-keys', 'SSH private keys', () => checkPrivateKeys(config)),
+      await runCheck('urls', 'URLs', () => checkUrls(config))
+    );
+  }
+
+  if (options.json) {
+    console.log(JSON.stringify(results, null, 2));
+  } else {
+    printResults(results);
+  }
+
+  if (results.some((result) => result.status === 'fail')) {
+    process.exitCode = 1;
+  }
+}
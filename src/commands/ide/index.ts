@@ -3,15 +3,35 @@ import 'zx/globals';
 import chalk from 'chalk';
 import inquirerAutocomplete from 'inquirer-autocomplete-prompt';
 import {
+  expandHome,
+  formatAge,
   readConfig,
-  findGitRepositories,
+  getWorkingDirectories,
+  readGitStatusCache,
   readIdeReposCache,
+  writeGitStatusCache,
   writeIdeReposCache,
+  type GitStatus,
   type GitRepository,
 } from '../../util.js';
+import { scanGitRepositories, type ScanOptions } from '../../discovery/scanner.js';
+import { collectGitStatuses } from '../../discovery/git-status.js';
+import { PICKER_SORTS } from '../../config/schema.js';
+import type {
+  DirectoryIndex,
+  DiscoveryConfig,
+  HshConfig,
+  PickerSort,
+  RepoMetadata,
+  SkipReason,
+  SkippedDirectory,
+  WorkingDirectory,
+} from '../../types/index.js';
 import { spawn } from 'child_process';
 import { existsSync } from 'fs';
 import os from 'os';
+import { basename, resolve } from 'path';
+import { selectWorktree } from './worktrees.js';
 
 interface ReposConfig {
   [key: string]: {
@@ -19,48 +39,137 @@ interface ReposConfig {
   };
 }
 
+interface Project {
+  category: string;
+  name: string;
+  path: string;
+  display: string;
+  root?: string; // label of the working directory (auto-discovery mode)
+  worktreeOf?: string; // main checkout of a linked worktree listed under it
+  submoduleOf?: string; // superproject of a submodule listed under it
+  metadata?: RepoMetadata;
+  matchedField?: string; // metadata a search keyword matched, e.g. `package: checkout-service`
+}
+
+// How long a cached repository list is used before it is rescanned in the background
+const DEFAULT_CACHE_TTL_MINUTES = 10;
+
+// Git status in the picker: cached values younger than the TTL are not re-read, and no
+// git process is started once the budget is used up
+const GIT_STATUS_TTL_MS = 30_000;
+const GIT_STATUS_BUDGET_MS = 1000;
+
 // Register autocomplete prompt
 inquirer.registerPrompt('autocomplete', inquirerAutocomplete);
 
 let reposConfig: ReposConfig;
 let currentCategory: string;
-let workingDirectory: string | undefined;
+let workingDirectories: WorkingDirectory[] = [];
 let autoDiscoveredRepos: GitRepository[] = [];
+let showGitStatus = false;
+let pickerSort: PickerSort = 'name';
+let gitStatuses: Record<string, GitStatus> = {};
+
+const matchesRoot = (root: WorkingDirectory, labelOrPath: string): boolean =>
+  root.label === labelOrPath || root.path === resolve(labelOrPath);
+
+// Sort alphabetically by name for better UX
+const sortRepos = (repos: GitRepository[]): GitRepository[] =>
+  [...repos].sort((a, b) => a.name.localeCompare(b.name));
+
+async function scanRoot(
+  root: WorkingDirectory,
+  discovery: DiscoveryConfig | undefined,
+  options?: ScanOptions
+): Promise<GitRepository[]> {
+  const { repos, dirs } = await scanGitRepositories(root.path, discovery, options);
+  writeIdeReposCache(root.path, repos, dirs);
+  return repos;
+}
 
-async function loadConfig(options?: { refreshReposCache?: boolean }) {
-  const config = readConfig();
-
-  // Check if workingDirectory is configured
-  if (config.workingDirectory) {
-    workingDirectory = config.workingDirectory;
+/**
+ * Rescan a root while the picker is open; the picker's next search shows the result.
+ * Failures keep the cached list, and the next run tries again.
+ */
+function revalidateInBackground(
+  root: WorkingDirectory,
+  discovery: DiscoveryConfig | undefined,
+  previous?: DirectoryIndex
+): void {
+  scanRoot(root, discovery, { previous })
+    .then((repos) => {
+      const others = autoDiscoveredRepos.filter((repo) => repo.root !== root.path);
+      autoDiscoveredRepos = sortRepos([...others, ...repos]);
+    })
+    .catch(() => undefined);
+}
 
-    // Validate that workingDirectory exists
-    if (!existsSync(workingDirectory)) {
-      throw new Error(`Working directory does not exist: ${workingDirectory}`);
+async function loadConfig(options?: {
+  refreshReposCache?: boolean;
+  full?: boolean;
+  root?: string;
+  onSkip?: (skipped: SkippedDirectory) => void;
+}): Promise<HshConfig> {
+  const config = readConfig();
+  const roots = getWorkingDirectories(config);
+
+  // Check if workingDirectory / workingDirectories are configured
+  if (roots.length > 0) {
+    const refreshed = options?.root
+      ? roots.filter((root) => matchesRoot(root, options.root!))
+      : roots;
+    if (refreshed.length === 0) {
+      throw new Error(
+        `No working directory matches "${options?.root}" (configured: ${roots.map((root) => root.label).join(', ')})`
+      );
     }
 
-    if (options?.refreshReposCache) {
-      // Force refresh: rescan and overwrite cache
-      autoDiscoveredRepos = findGitRepositories(workingDirectory);
-      writeIdeReposCache(workingDirectory, autoDiscoveredRepos);
-    } else {
-      // Default: use cache if possible (fast path)
-      const cached = readIdeReposCache(workingDirectory);
-      if (cached) {
-        autoDiscoveredRepos = cached;
-      } else {
-        // Warm the cache on first run
-        autoDiscoveredRepos = findGitRepositories(workingDirectory);
-        writeIdeReposCache(workingDirectory, autoDiscoveredRepos);
-      }
+    // Validate that the roots exist; an unmounted volume only hides its own repos
+    workingDirectories = roots.filter((root) => existsSync(root.path));
+    if (workingDirectories.length === 0) {
+      throw new Error(
+        `Working directory does not exist: ${roots.map((root) => root.path).join(', ')}`
+      );
     }
+    roots
+      .filter((root) => !workingDirectories.includes(root))
+      .forEach((root) =>
+        console.log(chalk.yellow(`⚠️  Working directory does not exist, skipping: ${root.path}`))
+      );
+
+    const ttlMs = (config.discovery?.cacheTtlMinutes ?? DEFAULT_CACHE_TTL_MINUTES) * 60_000;
+    const perRoot = await Promise.all(
+      workingDirectories.map(async (root) => {
+        const cached = readIdeReposCache(root.path);
+
+        if (options?.refreshReposCache && refreshed.includes(root)) {
+          // Explicit refresh: rescan now, re-reading only directories that changed
+          return scanRoot(root, config.discovery, {
+            previous: options.full ? undefined : cached?.dirs,
+            onSkip: options.onSkip,
+          });
+        }
+
+        if (cached) {
+          // Stale-while-revalidate: show the cached list now, rescan in the background
+          if (Date.now() - cached.updatedAt > ttlMs) {
+            revalidateInBackground(root, config.discovery, cached.dirs);
+          }
+          return cached.repos;
+        }
 
-    // Sort alphabetically by name for better UX
-    autoDiscoveredRepos.sort((a, b) => a.name.localeCompare(b.name));
+        // Warm the cache on first run
+        return scanRoot(root, config.discovery);
+      })
+    );
+    autoDiscoveredRepos = sortRepos(perRoot.flat());
+    // Merged mode: hand-curated entries are listed next to the discovered repos
+    reposConfig = config.discovery?.mergeRepos ? (config.repos ?? {}) : {};
   } else {
     // Use manual configuration (existing behavior)
     reposConfig = config.repos;
   }
+  return config;
 }
 
 async function searchCategories(_answers: unknown, input = '') {
@@ -106,27 +215,8 @@ async function searchProjects(_answers: unknown, input = '') {
     .map((p) => p.name);
 }
 
-// Flatten all projects with category context for fuzzy search
-function getAllProjects(): Array<{
-  category: string;
-  name: string;
-  path: string;
-  display: string;
-}> {
-  // Auto-discovery mode: use discovered Git repos
-  if (workingDirectory) {
-    return autoDiscoveredRepos.map((repo) => ({
-      category: repo.topLevelFolder,
-      name: repo.name,
-      path: repo.path,
-      display: `${repo.name} (${repo.path})`,
-    }));
-  }
-
-  // Manual configuration mode
-  if (!reposConfig) return [];
-
-  return Object.entries(reposConfig).flatMap(([category, projects]) =>
+const getManualProjects = (): Project[] =>
+  Object.entries(reposConfig ?? {}).flatMap(([category, projects]) =>
     Object.entries(projects).map(([name, path]) => ({
       category,
       name,
@@ -134,6 +224,147 @@ function getAllProjects(): Array<{
       display: `${name} (${category})`,
     }))
   );
+
+// Flatten all projects with category context for fuzzy search
+function getAllProjects(): Project[] {
+  // Manual configuration mode
+  if (workingDirectories.length === 0) return getManualProjects();
+
+  // Auto-discovery mode: discovered Git repos, plus the manual entries in merged mode.
+  // A manual entry for a discovered path replaces it, keeping its own name and category.
+  const manualProjects = getManualProjects().map((project) => ({
+    ...project,
+    display: `${project.name} (${project.path})`,
+  }));
+  const manualPaths = new Set(manualProjects.map((project) => resolve(expandHome(project.path))));
+
+  const toProject = (repo: GitRepository): Project => ({
+    category: repo.topLevelFolder,
+    name: repo.name,
+    path: repo.path,
+    display: `${repo.name} (${repo.path})`,
+    root: workingDirectories.find((root) => root.path === repo.root)?.label,
+    metadata: repo.metadata,
+  });
+
+  // Linked worktrees and submodules are listed right after their main checkout, in its group
+  const repos = autoDiscoveredRepos.filter((repo) => !manualPaths.has(repo.path));
+  const mainPaths = new Set(repos.map((repo) => repo.path));
+  const parentOf = (repo: GitRepository) => repo.worktreeOf ?? repo.submoduleOf;
+  const isGrouped = (repo: GitRepository) => mainPaths.has(parentOf(repo) ?? '');
+
+  const discoveredProjects = repos
+    .filter((repo) => !isGrouped(repo))
+    .flatMap((repo) => {
+      const main = toProject(repo);
+      const children = repos
+        .filter((child) => isGrouped(child) && parentOf(child) === repo.path)
+        .map((child) => ({
+          ...toProject(child),
+          category: main.category,
+          root: main.root,
+          ...(child.worktreeOf ? { worktreeOf: repo.path } : { submoduleOf: repo.path }),
+        }));
+      return [main, ...children];
+    });
+
+  return [...manualProjects, ...discoveredProjects];
+}
+
+const statusKey = (project: Project): string => resolve(expandHome(project.path));
+
+// e.g. `main ● ↑2 ↓1 · 3h ago`
+const formatGitStatus = (status: GitStatus | undefined): string => {
+  if (!status || (!status.branch && !status.detached)) return '';
+
+  const parts = [chalk.gray(status.branch ?? 'detached')];
+  if (status.dirty) parts.push(chalk.yellow('●'));
+  if (status.ahead) parts.push(chalk.cyan(`↑${status.ahead}`));
+  if (status.behind) parts.push(chalk.cyan(`↓${status.behind}`));
+  if (status.lastCommitAt) {
+    parts.push(chalk.gray(`· ${formatAge(Date.now() - status.lastCommitAt)} ago`));
+  }
+  return `  ${parts.join(' ')}`;
+};
+
+const formatProject = (project: Project): string => {
+  const kind = project.submoduleOf ? chalk.gray('  [submodule]') : '';
+  const match = project.matchedField ? chalk.gray(`  [${project.matchedField}]`) : '';
+  const status = showGitStatus ? formatGitStatus(gitStatuses[statusKey(project)]) : '';
+  return `${project.display}${kind}${match}${status}`;
+};
+
+// Most recently committed first; checkouts without a known commit keep their order at the end
+const sortByRecentCommit = (projects: Project[]): Project[] =>
+  [...projects].sort(
+    (a, b) =>
+      (gitStatuses[statusKey(b)]?.lastCommitAt ?? 0) -
+      (gitStatuses[statusKey(a)]?.lastCommitAt ?? 0)
+  );
+
+/**
+ * Re-read the git status of the picker's checkouts, oldest cached first, within
+ * GIT_STATUS_BUDGET_MS; the picker's next search shows each result as it arrives
+ */
+async function refreshGitStatuses(): Promise<void> {
+  const now = Date.now();
+  const isFresh = (path: string) =>
+    gitStatuses[path] !== undefined && now - gitStatuses[path].updatedAt < GIT_STATUS_TTL_MS;
+  const paths = [...new Set(getAllProjects().map(statusKey))]
+    .filter((path) => !isFresh(path))
+    .sort((a, b) => (gitStatuses[a]?.updatedAt ?? 0) - (gitStatuses[b]?.updatedAt ?? 0));
+  if (paths.length === 0) return;
+
+  const collected = await collectGitStatuses(paths, {
+    budgetMs: GIT_STATUS_BUDGET_MS,
+    onStatus: (path, status) => {
+      gitStatuses[path] = status;
+    },
+  });
+  writeGitStatusCache(collected);
+}
+
+// Discovered metadata searched besides name, category and path, labelled as in the picker
+const METADATA_FIELDS: Array<[string, (metadata: RepoMetadata) => string | undefined]> = [
+  ['package', (metadata) => metadata.packageName],
+  ['remote', (metadata) => metadata.remote],
+  ['readme', (metadata) => metadata.readmeTitle],
+  ['description', (metadata) => metadata.description],
+  ['keywords', (metadata) => metadata.keywords?.join(', ')],
+  ['languages', (metadata) => metadata.languages?.join(', ')],
+];
+const MAX_MATCHED_FIELD_LENGTH = 60;
+
+/**
+ * Every keyword must be found in the name, category, working directory or path, or else in
+ * a metadata field. Returns the project, with the first such field when one was needed.
+ */
+function matchProject(project: Project, keywords: string[]): Project | undefined {
+  const searchText =
+    `${project.name} ${project.category} ${project.root ?? ''} ${project.path}`.toLowerCase();
+  const { metadata } = project;
+  let matchedField: string | undefined;
+
+  for (const keyword of keywords) {
+    if (searchText.includes(keyword)) continue;
+
+    const field = metadata
+      ? METADATA_FIELDS.map(([label, read]) => ({ label, value: read(metadata) })).find(
+          ({ value }) => value?.toLowerCase().includes(keyword)
+        )
+      : undefined;
+    if (!field?.value) return undefined;
+
+    if (!matchedField) {
+      const value =
+        field.value.length > MAX_MATCHED_FIELD_LENGTH
+          ? `${field.value.slice(0, MAX_MATCHED_FIELD_LENGTH - 1)}…`
+          : field.value;
+      matchedField = `${field.label}: ${value}`;
+    }
+  }
+
+  return matchedField ? { ...project, matchedField } : project;
 }
 
 // Single-keyword fuzzy search across all projects
@@ -144,68 +375,75 @@ async function searchAllProjects(_answers: unknown, input = '') {
   let filteredProjects = allProjects;
   if (input) {
     const keywords = input.toLowerCase().trim().split(/\s+/);
-    filteredProjects = allProjects.filter((project) => {
-      const searchText = `${project.name} ${project.category} ${project.path}`.toLowerCase();
-      return keywords.every((keyword) => searchText.includes(keyword));
-    });
+    filteredProjects = allProjects
+      .map((project) => matchProject(project, keywords))
+      .filter((project): project is Project => project !== undefined);
+  }
+
+  if (pickerSort === 'recent') {
+    return sortByRecentCommit(filteredProjects).map((p) => ({ name: formatProject(p), value: p }));
   }
 
   // If auto-discovery mode, add category separators
-  if (workingDirectory) {
+  if (workingDirectories.length > 0) {
     return formatProjectsWithSeparators(filteredProjects);
   }
 
   // Manual mode: simple display
-  return filteredProjects.map((p) => ({ name: p.display, value: p }));
+  return filteredProjects.map((p) => ({ name: formatProject(p), value: p }));
 }
 
-// Format projects with top-level folder separators (for auto-discovery mode)
+// Format projects with separators per top-level folder, prefixed by the working directory
+// label when there is more than one (for auto-discovery mode)
 function formatProjectsWithSeparators(
-  projects: Array<{
-    category: string;
-    name: string;
-    path: string;
-    display: string;
-  }>
+  projects: Project[]
 ): Array<{ name: string; value?: unknown; disabled?: string }> {
-  // Group projects by category (top-level folder)
-  const grouped = new Map<
-    string,
-    Array<{ category: string; name: string; path: string; display: string }>
-  >();
+  const showRoot = workingDirectories.length > 1;
+
+  // Group projects by working directory and category (top-level folder). Manual entries
+  // (merged mode) have no working directory; with a single one, a manual category joins
+  // the top-level folder of the same name.
+  const grouped = new Map<string, Project[]>();
 
   projects.forEach((project) => {
-    const category = project.category;
-    if (!grouped.has(category)) {
-      grouped.set(category, []);
+    const key = JSON.stringify([showRoot ? (project.root ?? '') : '', project.category]);
+    if (!grouped.has(key)) {
+      grouped.set(key, []);
     }
-    grouped.get(category)!.push(project);
+    grouped.get(key)!.push(project);
   });
 
-  // Sort categories alphabetically, but put root (/) last
-  const sortedCategories = Array.from(grouped.keys()).sort((a, b) => {
-    if (a === '/') return 1;
-    if (b === '/') return 1;
-    return a.localeCompare(b);
+  // Manual categories first, then working directories in configured order; within one,
+  // categories alphabetically with root (/) last
+  const rootIndex = (project: Project) =>
+    showRoot ? workingDirectories.findIndex((root) => root.label === project.root) : 0;
+  const groups = Array.from(grouped.values()).sort((a, b) => {
+    const [first, second] = [a[0], b[0]];
+    return (
+      rootIndex(first) - rootIndex(second) ||
+      Number(first.category === '/') - Number(second.category === '/') ||
+      first.category.localeCompare(second.category)
+    );
   });
 
   // Build result with separators
   const result: Array<{ name: string; value?: unknown; disabled?: string }> = [];
 
-  sortedCategories.forEach((category) => {
-    const categoryProjects = grouped.get(category)!;
+  groups.forEach((categoryProjects) => {
+    const { category, root } = categoryProjects[0];
 
     // Add category separator
     const categoryLabel = category === '/' ? '/ (root)' : category;
+    const label = showRoot && root ? `${root} › ${categoryLabel}` : categoryLabel;
     result.push({
-      name: `---------  ${categoryLabel}  ---------`,
+      name: `---------  ${label}  ---------`,
       disabled: 'separator',
     });
 
     // Add projects in this category
     categoryProjects.forEach((p) => {
       result.push({
-        name: `  ${p.display}`,
+        name: `  ${p.worktreeOf || p.submoduleOf ? '↳ ' : ''}${formatProject(p)}`,
         value: p,
       });
     });
@@ -217,7 +455,7 @@ function formatProjectsWithSeparators(
 // Select project using fuzzy search across all categories
 async function selectProjectWithFuzzySearch(
   searchMode?: string
-): Promise<{ path: string; name: string }> {
+): Promise<Pick<Project, 'path' | 'name' | 'worktreeOf'>> {
   const answer = await inquirer.prompt([
     {
       type: 'autocomplete',
@@ -231,6 +469,7 @@ async function selectProjectWithFuzzySearch(
   return {
     path: answer.project.path,
     name: answer.project.name,
+    worktreeOf: answer.project.worktreeOf,
   };
 }
 
@@ -298,32 +537,122 @@ async function launchIDE(ideType: string, projectPath: string, projectName: stri
   }
 }
 
-export const openIDE = async (ideType: 'cursor' | 'claude', searchMode?: string) => {
+/**
+ * Pick a project and open it. With `worktree`, then choose or create one of its worktrees,
+ * unless a worktree row was picked. `sort` overrides `picker.sort`.
+ */
+export const openIDE = async (
+  ideType: 'cursor' | 'claude',
+  searchMode?: string,
+  options?: { worktree?: boolean; sort?: string }
+) => {
   try {
-    await loadConfig();
+    if (options?.sort !== undefined && !PICKER_SORTS.includes(options.sort as PickerSort)) {
+      console.error(
+        chalk.red(`❌ Unknown sort order "${options.sort}" (expected ${PICKER_SORTS.join(', ')})`)
+      );
+      process.exitCode = 1;
+      return;
+    }
+
+    const { picker } = await loadConfig();
+    showGitStatus = picker?.gitStatus ?? false;
+    pickerSort = (options?.sort as PickerSort | undefined) ?? picker?.sort ?? 'name';
+
+    if (showGitStatus || pickerSort === 'recent') {
+      gitStatuses = readGitStatusCache();
+      const refresh = refreshGitStatuses().catch(() => undefined);
+      // Nothing cached yet: wait for the first results (bounded by the budget)
+      if (Object.keys(gitStatuses).length === 0) await refresh;
+    }
 
     // In auto-discovery mode, always use fuzzy search (no categories)
-    const project =
-      workingDirectory || searchMode !== undefined
+    const project: Pick<Project, 'path' | 'name' | 'worktreeOf'> =
+      workingDirectories.length > 0 || searchMode !== undefined || pickerSort === 'recent'
         ? await selectProjectWithFuzzySearch(searchMode)
         : await selectProjectWithTwoStep();
 
+    const projectPath =
+      options?.worktree && !project.worktreeOf ? await selectWorktree(project.path) : project.path;
+    const projectName = projectPath === project.path ? project.name : basename(projectPath);
+
     // Launch IDE based on type
     if (ideType === 'claude') {
-      await launchClaude(project.path);
+      await launchClaude(projectPath);
     } else {
-      await launchIDE(ideType, project.path, project.name);
+      await launchIDE(ideType, projectPath, projectName);
     }
   } catch (error) {
     console.error(chalk.red(`Error opening project in ${ideType}:`, error));
   }
 };
 
-export const refreshIdeReposCache = async (): Promise<void> => {
-  await loadConfig({ refreshReposCache: true });
-  if (!workingDirectory) {
+const SKIP_REASON_LABELS: Record<SkipReason, string> = {
+  ignored: 'ignored',
+  'max-depth': 'too deep',
+  symlink: 'symlink',
+  'already-scanned': 'duplicate',
+  unreadable: 'unreadable',
+};
+
+function printSkipped(skipped: SkippedDirectory[], verbose?: boolean): void {
+  if (verbose) {
+    if (skipped.length === 0) return;
+    console.log(
+      chalk.bold(`Skipped ${skipped.length} director${skipped.length === 1 ? 'y' : 'ies'}:`)
+    );
+    const sorted = [...skipped].sort((a, b) => a.path.localeCompare(b.path));
+    for (const { path, reason, detail } of sorted) {
+      const note =
+        reason === 'symlink'
+          ? 'not followed; set discovery.followSymlinks'
+          : reason === 'max-depth'
+            ? 'below discovery.maxDepth'
+            : reason === 'already-scanned'
+              ? `same folder as ${detail}`
+              : detail;
+      console.log(
+        `  ${SKIP_REASON_LABELS[reason].padEnd(10)}  ${path}${chalk.gray(`  (${note})`)}`
+      );
+    }
+    return;
+  }
+
+  const unreadable = skipped.filter(({ reason }) => reason === 'unreadable').length;
+  if (unreadable > 0) {
+    console.log(
+      chalk.yellow(
+        `⚠️  ${unreadable} director${unreadable === 1 ? 'y' : 'ies'} could not be read; rerun with --verbose to list them`
+      )
+    );
+  }
+}
+
+/**
+ * Rescan every working directory, or only the one whose label or path is `root`.
+ * Only changed directories are re-read unless `full`; `verbose` lists skipped directories.
+ */
+export const refreshIdeReposCache = async (
+  root?: string,
+  options?: { verbose?: boolean; full?: boolean }
+): Promise<void> => {
+  const skipped: SkippedDirectory[] = [];
+  try {
+    await loadConfig({
+      refreshReposCache: true,
+      full: options?.full,
+      root,
+      onSkip: (directory) => skipped.push(directory),
+    });
+  } catch (error) {
+    console.error(chalk.red(error instanceof Error ? error.message : String(error)));
+    process.exitCode = 1;
+    return;
+  }
+  if (workingDirectories.length === 0) {
     console.log(chalk.yellow('No workingDirectory configured; nothing to refresh.'));
     return;
   }
-  console.log(chalk.green('IDE repository cache refreshed.'));
+  printSkipped(skipped, options?.verbose);
+  console.log(chalk.green(`IDE repository cache refreshed${root ? ` for ${root}` : ''}.`));
 };
@@ -0,0 +1,102 @@
+import inquirer from 'inquirer';
+import chalk from 'chalk';
+import { existsSync } from 'fs';
+import { basename, dirname, join, resolve } from 'path';
+import { $ } from 'zx';
+import { listWorktrees, type Worktree } from '../../discovery/worktrees.js';
+
+const NEW_WORKTREE = '__new__';
+
+const git = (dir: string, args: string[]) => $`git -C ${dir} ${args}`.quiet();
+
+const describeWorktree = (worktree: Worktree): string => {
+  const ref = worktree.branch ?? `detached at ${worktree.head?.slice(0, 7) ?? 'unknown'}`;
+  const flags = [worktree.main ? 'main' : '', worktree.locked ? 'locked' : '']
+    .filter(Boolean)
+    .map((flag) => chalk.gray(` [${flag}]`))
+    .join('');
+  return `${ref}  (${worktree.path})${flags}`;
+};
+
+/**
+ * Add a worktree for `branch`: an existing local branch, a remote one (git creates the
+ * tracking branch) or a new branch from the current HEAD
+ */
+async function createWorktree(repoPath: string): Promise<string> {
+  const { branch } = await inquirer.prompt([
+    {
+      type: 'input',
+      name: 'branch',
+      message: 'Branch for the new worktree:',
+      filter: (input: string) => input.trim(),
+      validate: async (input: string) => {
+        if (!input) return 'Branch is required';
+        const check = await git(repoPath, ['check-ref-format', '--branch', input]).nothrow();
+        return check.exitCode === 0 || `Not a valid branch name: ${input}`;
+      },
+    },
+  ]);
+
+  const mainPath = (await listWorktrees(repoPath)).find((worktree) => worktree.main)?.path;
+  const base = mainPath ?? repoPath;
+  const { path } = await inquirer.prompt([
+    {
+      type: 'input',
+      name: 'path',
+      message: 'Worktree folder:',
+      default: join(dirname(base), `${basename(base)}-${branch.replace(/\//g, '-')}`),
+      filter: (input: string) => resolve(input.trim()),
+      validate: (input: string) =>
+        existsSync(resolve(input.trim())) ? `Already exists: ${input.trim()}` : true,
+    },
+  ]);
+
+  const local = await git(repoPath, [
+    'rev-parse',
+    '--verify',
+    '--quiet',
+    `refs/heads/${branch}`,
+  ]).nothrow();
+  const remote = await git(repoPath, [
+    'for-each-ref',
+    '--format=%(refname)',
+    `refs/remotes/*/${branch}`,
+  ]).nothrow();
+  const exists = local.exitCode === 0 || remote.stdout.trim() !== '';
+
+  await git(repoPath, ['worktree', 'add', ...(exists ? [path, branch] : ['-b', branch, path])]);
+  console.log(chalk.green(`✅ Created worktree ${path} (${branch})`));
+  return path;
+}
+
+/**
+ * Second step after a project was picked: choose one of its worktrees, or create one.
+ * Returns `projectPath` unchanged when it is not a git repository.
+ */
+export async function selectWorktree(projectPath: string): Promise<string> {
+  const worktrees = (await listWorktrees(projectPath)).filter(
+    (worktree) => !worktree.bare && !worktree.prunable
+  );
+  if (worktrees.length === 0) return projectPath;
+
+  const selectedPath = resolve(projectPath);
+  const { selected } = await inquirer.prompt([
+    {
+      type: 'list',
+      name: 'selected',
+      message: 'Select a worktree:',
+      default: worktrees.find((worktree) => worktree.path === selectedPath)?.path,
+      choices: [
+        ...worktrees.map((worktree) => ({
+          name: describeWorktree(worktree),
+          value: worktree.path,
+        })),
+        new inquirer.Separator(),
+        { name: '+ New worktree for a branch...', value: NEW_WORKTREE },
+      ],
+      pageSize: 15,
+    },
+  ]);
+
+  return selected === NEW_WORKTREE ? createWorktree(projectPath) : selected;
+}
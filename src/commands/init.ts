@@ -1,64 +1,295 @@
 import inquirer from 'inquirer';
 import chalk from 'chalk';
-import { existsSync, writeFileSync, statSync } from 'fs';
-import { getConfigPath } from '../util.js';
+import { existsSync, readdirSync, readFileSync, statSync, type Dirent } from 'fs';
+import { homedir } from 'os';
+import { dirname, isAbsolute, join, resolve } from 'path';
+import { expandHome, findLauncher, getConfigPath, saveConfig } from '../util.js';
+import { deepMerge } from '../config/layers.js';
+import { migrateConfig } from '../config/migrations.js';
+import { ConfigValidationError, normalizeConfig, validateConfig } from '../config/schema.js';
 import type { HshConfig } from '../types/index.js';
 
+// Where the config lived when the CLI was called `hsh`
+const LEGACY_CONFIG_PATH = join(homedir(), '.hsh', 'config.json');
+
+// Bounds for the workingDirectory suggestion scan, so `ai init` stays quick on a large home
+const SCAN_MAX_DEPTH = 4;
+const SCAN_MAX_DIRS = 5000;
+const SCAN_SKIPPED_DIRS = new Set(['node_modules', 'Library', 'Applications', 'Music', 'Movies']);
+const MAX_CANDIDATES = 5;
+
+const OTHER_DIRECTORY = '__other__';
+const NO_DIRECTORY = '__none__';
+
+interface ConfigSource {
+  path: string;
+  config: HshConfig;
+}
+
+/**
+ * Read a config to import. Relative `include` entries are made absolute, since they
+ * were relative to the imported file rather than to the config being written.
+ */
+const loadSource = (path: string, configPath: string): ConfigSource => {
+  if (!existsSync(path)) {
+    throw new Error(`Config file not found: ${path}`);
+  }
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(readFileSync(path, 'utf-8'));
+  } catch (error) {
+    throw new Error(`${path} is not valid JSON: ${(error as Error).message}`);
+  }
+
+  const config = migrateConfig(raw).config as HshConfig;
+  if (Array.isArray(config.include) && dirname(path) !== dirname(configPath)) {
+    config.include = config.include.map((file) =>
+      file.startsWith('~') || isAbsolute(file) ? file : resolve(dirname(path), file)
+    );
+  }
+  return { path, config };
+};
+
+/**
+ * A config that init would only merge: when it cannot be read, init warns and goes on
+ * without it instead of aborting
+ */
+const loadOptionalSource = (path: string, configPath: string): ConfigSource | undefined => {
+  try {
+    return loadSource(path, configPath);
+  } catch (error) {
+    console.log(chalk.yellow(`⚠️  ${(error as Error).message}; skipping it`));
+    return undefined;
+  }
+};
+
+const describeConfig = (config: HshConfig): string => {
+  const count = (section: object | undefined) => Object.keys(section ?? {}).length;
+  const parts = [
+    `${count(config.repos)} repo categories`,
+    `${count(config.yiren)} cloud services`,
+    `${count(config.urls)} URLs`,
+    `${count(config.urlGroups)} URL groups`,
+  ];
+  if (config.workingDirectory) {
+    parts.unshift(`workingDirectory ${config.workingDirectory}`);
+  }
+  return parts.join(', ');
+};
+
+const toDirectoryPath = (input: string): string => resolve(expandHome(input.trim()));
+
+const validateDirectory = (input: string): string | true => {
+  if (!input.trim()) return 'workingDirectory is required';
+  const value = toDirectoryPath(input);
+  if (!existsSync(value)) return `Path does not exist: ${value}`;
+  try {
+    if (!statSync(value).isDirectory()) return `Not a directory: ${value}`;
+  } catch {
+    return `Cannot access path: ${value}`;
+  }
+  return true;
+};
+
+/**
+ * Folders under the home directory that hold the most git repositories (breadth-first,
+ * bounded by SCAN_MAX_DEPTH / SCAN_MAX_DIRS). Ties go to the outer folder.
+ */
+function findWorkingDirectoryCandidates(): Array<{ path: string; repoCount: number }> {
+  const home = homedir();
+  const repoCounts = new Map<string, number>();
+  const queue: Array<{ dir: string; depth: number }> = [{ dir: home, depth: 0 }];
+
+  for (let visited = 0; queue.length > 0 && visited < SCAN_MAX_DIRS; visited++) {
+    const { dir, depth } = queue.shift()!;
+    let entries: Dirent[];
+    try {
+      entries = readdirSync(dir, { withFileTypes: true });
+    } catch {
+      continue;
+    }
+
+    if (entries.some((entry) => entry.name === '.git')) {
+      // Count the repository towards every folder between it and the home directory
+      for (let parent = dirname(dir); parent.startsWith(home) && parent !== home; ) {
+        repoCounts.set(parent, (repoCounts.get(parent) ?? 0) + 1);
+        parent = dirname(parent);
+      }
+      continue;
+    }
+
+    if (depth >= SCAN_MAX_DEPTH) continue;
+    for (const entry of entries) {
+      if (
+        entry.isDirectory() &&
+        !entry.name.startsWith('.') &&
+        !SCAN_SKIPPED_DIRS.has(entry.name)
+      ) {
+        queue.push({ dir: join(dir, entry.name), depth: depth + 1 });
+      }
+    }
+  }
+
+  return [...repoCounts]
+    .filter(([, repoCount]) => repoCount >= 2)
+    .sort(([a, countA], [b, countB]) => countB - countA || a.length - b.length)
+    .slice(0, MAX_CANDIDATES)
+    .map(([path, repoCount]) => ({ path, repoCount }));
+}
+
+async function promptWorkingDirectory(current?: string): Promise<string | undefined> {
+  const candidates = findWorkingDirectoryCandidates().filter(({ path }) => path !== current);
+
+  let selected: string = OTHER_DIRECTORY;
+  if (current || candidates.length > 0) {
+    ({ selected } = await inquirer.prompt([
+      {
+        type: 'list',
+        name: 'selected',
+        message: 'workingDirectory (a folder containing your git repos):',
+        choices: [
+          ...(current ? [{ name: `${current} (current)`, value: current }] : []),
+          ...candidates.map(({ path, repoCount }) => ({
+            name: `${path} (${repoCount} git repos)`,
+            value: path,
+          })),
+          { name: 'Other...', value: OTHER_DIRECTORY },
+          { name: 'None (list projects under "repos" instead)', value: NO_DIRECTORY },
+        ],
+      },
+    ]));
+  }
+
+  if (selected === NO_DIRECTORY) return undefined;
+  if (selected !== OTHER_DIRECTORY) return selected;
+
+  const { workingDirectory } = await inquirer.prompt([
+    {
+      type: 'input',
+      name: 'workingDirectory',
+      message: 'workingDirectory (a folder containing your git repos):',
+      default: process.cwd(),
+      validate: validateDirectory,
+      filter: (input: string) => (input.trim() ? toDirectoryPath(input) : ''),
+    },
+  ]);
+  return workingDirectory;
+}
+
+async function reportLaunchers(): Promise<void> {
+  const launchers = [
+    { command: 'ai cursor', binary: 'cursor', macApp: 'Cursor', install: 'https://cursor.com' },
+    { command: 'ai claude', binary: 'claude', install: 'npm install -g @anthropic-ai/claude-code' },
+  ];
+
+  for (const { command, binary, macApp, install } of launchers) {
+    const path = await findLauncher(binary, macApp);
+    console.log(
+      path
+        ? chalk.green(`✅ ${command}: ${path}`)
+        : chalk.yellow(`⚠️  ${command}: ${binary} not found (install: ${install})`)
+    );
+  }
+}
+
+/**
+ * Create or update the config. Existing entries (and, on request, the legacy ~/.hsh
+ * config) are merged rather than overwritten; `from` imports a file without prompting.
+ */
 export async function initConfig(options?: {
   workingDirectory?: string;
   force?: boolean;
+  from?: string;
 }): Promise<void> {
-  const configPath = getConfigPath();
+  try {
+    const configPath = getConfigPath();
+    const interactive = !options?.from;
+    const hasConfig = existsSync(configPath);
 
-  if (existsSync(configPath) && !options?.force) {
-    const { overwrite } = await inquirer.prompt([
-      {
-        type: 'confirm',
-        name: 'overwrite',
-        message: `Config already exists at ${configPath}. Overwrite?`,
-        default: false,
-      },
-    ]);
+    const confirm = async (message: string, defaultValue: boolean): Promise<boolean> => {
+      if (!interactive || options?.force) return defaultValue;
+      const { confirmed } = await inquirer.prompt([
+        { type: 'confirm', name: 'confirmed', message, default: defaultValue },
+      ]);
+      return confirmed;
+    };
 
-    if (!overwrite) {
-      console.log(chalk.yellow('Init cancelled.'));
+    // Lowest priority first: legacy file, current config, then --from
+    const sources: ConfigSource[] = [];
+
+    const legacy =
+      existsSync(LEGACY_CONFIG_PATH) && resolve(LEGACY_CONFIG_PATH) !== configPath
+        ? loadOptionalSource(LEGACY_CONFIG_PATH, configPath)
+        : undefined;
+    if (legacy) {
+      console.log(
+        chalk.blue(
+          `ℹ️  Found legacy config ${LEGACY_CONFIG_PATH}: ${describeConfig(legacy.config)}`
+        )
+      );
+      // Once imported, re-importing would bring back entries removed since
+      if (await confirm('Import it?', !hasConfig)) {
+        sources.push(legacy);
+      }
+    }
+
+    // --from replaces the existing config, which stays in `ai config history`
+    const existing =
+      hasConfig && !options?.from ? loadOptionalSource(configPath, configPath) : undefined;
+    if (existing) {
+      console.log(
+        chalk.blue(`ℹ️  Found existing config ${configPath}: ${describeConfig(existing.config)}`)
+      );
+      if (await confirm('Keep its entries? (No starts from an empty config)', true)) {
+        sources.push(existing);
+      }
+    }
+
+    if (options?.from) {
+      sources.push(loadSource(resolve(expandHome(options.from)), configPath));
+    }
+
+    const config = normalizeConfig(
+      sources.reduce<HshConfig>(
+        (merged, source) => deepMerge(merged, source.config) as HshConfig,
+        {} as HshConfig
+      )
+    );
+
+    let workingDirectory: string | undefined;
+    if (options?.workingDirectory !== undefined) {
+      const result = validateDirectory(options.workingDirectory);
+      if (result !== true) throw new Error(`Invalid --working-directory: ${result}`);
+      workingDirectory = toDirectoryPath(options.workingDirectory);
+    } else {
+      workingDirectory = interactive
+        ? await promptWorkingDirectory(config.workingDirectory)
+        : config.workingDirectory;
+    }
+    if (workingDirectory) {
+      config.workingDirectory = workingDirectory;
+    } else {
+      delete config.workingDirectory;
+    }
+
+    try {
+      validateConfig(config);
+    } catch (error) {
+      if (!(error instanceof ConfigValidationError)) throw error;
+      console.error(chalk.red('❌ The imported config is invalid; nothing was written:'));
+      error.issues.forEach((issue) => console.error(chalk.red(`   - ${issue}`)));
+      process.exitCode = 1;
       return;
     }
-  }
 
-  const workingDirectory =
-    options?.workingDirectory ??
-    (
-      await inquirer.prompt([
-        {
-          type: 'input',
-          name: 'workingDirectory',
-          message: 'workingDirectory (a folder containing your git repos):',
-          default: process.cwd(),
-          validate: (input: string) => {
-            const value = input.trim();
-            if (!value) return 'workingDirectory is required';
-            if (!existsSync(value)) return `Path does not exist: ${value}`;
-            try {
-              if (!statSync(value).isDirectory()) return `Not a directory: ${value}`;
-            } catch {
-              return `Cannot access path: ${value}`;
-            }
-            return true;
-          },
-          filter: (input: string) => input.trim(),
-        },
-      ])
-    ).workingDirectory;
-
-  const payload: HshConfig = {
-    workingDirectory,
-    repos: {},
-    yiren: {},
-    urls: {},
-    urlGroups: {},
-  };
-
-  writeFileSync(configPath, JSON.stringify(payload, null, 2), 'utf-8');
-  console.log(chalk.green(`✅ Wrote config: ${configPath}`));
+    await reportLaunchers();
+
+    saveConfig(config);
+    console.log(chalk.green(`✅ Wrote config: ${configPath}`));
+    console.log(chalk.gray(`   ${describeConfig(config)}`));
+  } catch (error) {
+    console.error(chalk.red(`❌ ${error instanceof Error ? error.message : String(error)}`));
+    process.exitCode = 1;
+  }
 }
@@ -1,25 +1,22 @@
 import inquirer from 'inquirer';
 import chalk from 'chalk';
 import inquirerAutocomplete from 'inquirer-autocomplete-prompt';
-import { getConfigPath, readConfig } from '../util.js';
-import { writeFileSync } from 'fs';
+import { readConfig, readConfigLayers, updateConfig } from '../util.js';
 import { HshConfig } from '../types/index.js';
 import { $ } from 'zx';
 
 // Register autocomplete prompt
 inquirer.registerPrompt('autocomplete', inquirerAutocomplete);
 
-// Read and write config helpers
-function readFullConfig(): HshConfig {
-  const config = readConfig();
-  if (!config.urls) {
-    config.urls = {};
-  }
-  return config;
+// Write config helper: apply a change to the latest config on disk
+function writeConfig(mutate: (config: HshConfig) => void): void {
+  updateConfig((config) => {
+    mutate(config);
+    sortUrlsByDomain(config);
+  });
 }
 
-function writeConfig(config: HshConfig): void {
-  // Sort URLs by domain before writing
+function sortUrlsByDomain(config: HshConfig): void {
   if (config.urls) {
     const sortedUrls: Record<string, string> = {};
 
@@ -51,14 +48,12 @@ function writeConfig(config: HshConfig): void {
 
     config.urls = sortedUrls;
   }
-
-  writeFileSync(getConfigPath(), JSON.stringify(config, null, 2), 'utf-8');
 }
 
 // Add a new URL
 export async function addUrl(name: string, url: string): Promise<void> {
   try {
-    const config = readFullConfig();
+    const config = readConfig();
 
     if (config.urls![name]) {
       console.log(
@@ -79,8 +74,9 @@ export async function addUrl(name: string, url: string): Promise<void> {
       }
     }
 
-    config.urls![name] = url;
-    writeConfig(config);
+    writeConfig((latest) => {
+      latest.urls![name] = url;
+    });
     console.log(chalk.green(`✅ Added URL: ${name} → ${url}`));
   } catch (error) {
     console.error(chalk.red('Error adding URL:'), error);
@@ -92,7 +88,7 @@ async function searchUrls(
   _answers: unknown,
   input = ''
 ): Promise<Array<{ name: string; value: { name: string; url: string } }>> {
-  const config = readFullConfig();
+  const config = readConfig();
   const urls = config.urls || {};
 
   const entries = Object.entries(urls).map(([name, url]) => ({
@@ -124,7 +120,7 @@ async function searchUrls(
 // Remove a URL
 export async function removeUrl(name?: string): Promise<void> {
   try {
-    const config = readFullConfig();
+    const config = readConfig();
 
     if (!config.urls || Object.keys(config.urls).length === 0) {
       console.log(chalk.yellow('⚠️  No URLs found in configuration.'));
@@ -154,9 +150,20 @@ export async function removeUrl(name?: string): Promise<void> {
       targetName = answer.selected.name;
     }
 
+    const personal = readConfigLayers().at(-1)!;
+    if (!personal.config.urls?.[targetName]) {
+      console.log(
+        chalk.yellow(
+          `⚠️  URL "${targetName}" comes from an included file and cannot be removed from ${personal.path}.`
+        )
+      );
+      return;
+    }
+
     const removedUrl = config.urls[targetName];
-    delete config.urls[targetName];
-    writeConfig(config);
+    writeConfig((latest) => {
+      delete latest.urls![targetName];
+    });
     console.log(chalk.green(`✅ Removed URL: ${targetName} - ${removedUrl}`));
   } catch (error) {
     console.error(chalk.red('Error removing URL:'), error);
@@ -166,7 +173,7 @@ export async function removeUrl(name?: string): Promise<void> {
 // Search and open URL in Chrome
 export async function searchAndOpenUrl(suppress?: boolean): Promise<void> {
   try {
-    const config = readFullConfig();
+    const config = readConfig();
 
     if (!config.urls || Object.keys(config.urls).length === 0) {
       console.log(chalk.yellow('⚠️  No URLs found in configuration.'));
@@ -214,7 +221,7 @@ export async function searchAndOpenUrl(suppress?: boolean): Promise<void> {
 // Open URL group in a new Chrome window
 export async function openUrlGroup(): Promise<void> {
   try {
-    const config = readFullConfig();
+    const config = readConfig();
 
     if (!config.urlGroups || Object.keys(config.urlGroups).length === 0) {
       console.log(chalk.yellow('⚠️  No URL groups found in configuration.'));
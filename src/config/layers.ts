@@ -0,0 +1,58 @@
+import type { ConfigLayer, HshConfig } from '../types/index.js';
+
+type JsonObject = Record<string, unknown>;
+
+const isObject = (value: unknown): value is JsonObject =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Objects merge key by key; arrays and scalars from the higher layer replace the lower one
+export const deepMerge = (base: unknown, override: unknown): unknown => {
+  if (!isObject(base) || !isObject(override)) return override;
+  const merged: JsonObject = { ...base };
+  for (const [key, value] of Object.entries(override)) {
+    merged[key] = key in base ? deepMerge(base[key], value) : value;
+  }
+  return merged;
+};
+
+/**
+ * Merge layers ordered from lowest to highest priority (included files first, personal last).
+ * `include` only has meaning in the personal file, so included files' own lists are dropped.
+ */
+export function mergeConfigLayers(layers: ConfigLayer[]): HshConfig {
+  return layers.reduce<HshConfig>((merged, layer, index) => {
+    const { include, ...rest } = layer.config;
+    const isPersonal = index === layers.length - 1;
+    const source = isPersonal && include ? { ...rest, include } : rest;
+    return deepMerge(merged, source) as HshConfig;
+  }, {} as HshConfig);
+}
+
+/**
+ * Leaf values keyed by dotted path; arrays are leaves since they are replaced, not merged
+ */
+export function flattenConfig(value: unknown, prefix = ''): Map<string, unknown> {
+  const leaves = new Map<string, unknown>();
+  if (isObject(value)) {
+    for (const [key, item] of Object.entries(value)) {
+      const path = prefix ? `${prefix}.${key}` : key;
+      flattenConfig(item, path).forEach((leaf, leafPath) => leaves.set(leafPath, leaf));
+    }
+  } else if (prefix) {
+    leaves.set(prefix, value);
+  }
+  return leaves;
+}
+
+/**
+ * For each leaf of the merged config, the file of the highest layer that defines it
+ */
+export function resolveOrigins(layers: ConfigLayer[]): Map<string, string> {
+  const origins = new Map<string, string>();
+  for (const layer of layers) {
+    for (const path of flattenConfig(layer.config).keys()) {
+      origins.set(path, layer.path);
+    }
+  }
+  return origins;
+}
@@ -0,0 +1,60 @@
+/**
+ * Config schema version written by this CLI. Bump it together with a new entry in
+ * MIGRATIONS whenever the shape of ~/.ai/config.json changes.
+ */
+export const CONFIG_VERSION = 1;
+
+type JsonObject = Record<string, unknown>;
+
+interface ConfigMigration {
+  from: number;
+  description: string;
+  migrate: (config: JsonObject) => JsonObject;
+}
+
+const MIGRATIONS: ConfigMigration[] = [
+  {
+    // Unversioned configs, including the early "workingDirectory only" shape
+    from: 0,
+    description: 'add "version" and the "repos"/"yiren" sections',
+    migrate: (config) => ({
+      version: 1,
+      ...config,
+      repos: config.repos ?? {},
+      yiren: config.yiren ?? {},
+    }),
+  },
+];
+
+const getVersion = (config: JsonObject): number =>
+  Number.isInteger(config.version) ? (config.version as number) : 0;
+
+/**
+ * Upgrade a parsed config to CONFIG_VERSION by running every migration after its version.
+ * Non-objects and configs from newer versions are returned untouched for validation to report.
+ */
+export function migrateConfig(raw: unknown): {
+  config: unknown;
+  fromVersion: number;
+  applied: string[];
+} {
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+    return { config: raw, fromVersion: 0, applied: [] };
+  }
+
+  let config = raw as JsonObject;
+  const fromVersion = getVersion(config);
+  const applied: string[] = [];
+
+  while (getVersion(config) < CONFIG_VERSION) {
+    const version = getVersion(config);
+    const migration = MIGRATIONS.find((m) => m.from === version);
+    if (!migration) {
+      throw new Error(`No config migration from version ${version}`);
+    }
+    config = migration.migrate(config);
+    applied.push(`v${version} → v${getVersion(config)}: ${migration.description}`);
+  }
+
+  return { config, fromVersion, applied };
+}
@@ -0,0 +1,69 @@
+type Container = Record<string, unknown> | unknown[];
+
+/**
+ * Split a dotted config path into segments. Keys containing dots are written in
+ * brackets, array items by index: `urls["github.com"]`, `urlGroups.work[0]`
+ */
+export function parseConfigPath(path: string): string[] {
+  const segments: string[] = [];
+  const pattern = /([^.[\]]+)|\[(\d+)\]|\["((?:[^"\\]|\\.)*)"\]|\['([^']*)'\]/g;
+  let position = 0;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(path)) !== null) {
+    const between = path.slice(position, match.index);
+    if (between !== '' && between !== '.') {
+      throw new Error(`Invalid config path: ${path}`);
+    }
+    segments.push(match[1] ?? match[2] ?? match[3]?.replace(/\\(.)/g, '$1') ?? match[4]);
+    position = pattern.lastIndex;
+  }
+
+  if (segments.length === 0 || position !== path.length) {
+    throw new Error(`Invalid config path: ${path}`);
+  }
+  return segments;
+}
+
+const isContainer = (value: unknown): value is Container =>
+  typeof value === 'object' && value !== null;
+
+export function getAtPath(root: unknown, segments: string[]): unknown {
+  let current = root;
+  for (const segment of segments) {
+    if (!isContainer(current)) return undefined;
+    current = (current as Record<string, unknown>)[segment];
+  }
+  return current;
+}
+
+/**
+ * Set a value, creating intermediate objects (or arrays before a numeric segment)
+ */
+export function setAtPath(root: Record<string, unknown>, segments: string[], value: unknown): void {
+  let current: Container = root;
+  segments.slice(0, -1).forEach((segment, index) => {
+    const record = current as Record<string, unknown>;
+    if (!isContainer(record[segment])) {
+      record[segment] = /^\d+$/.test(segments[index + 1]) ? [] : {};
+    }
+    current = record[segment] as Container;
+  });
+  (current as Record<string, unknown>)[segments[segments.length - 1]] = value;
+}
+
+/**
+ * Remove a value; returns false when nothing was there. Array items are spliced out.
+ */
+export function unsetAtPath(root: Record<string, unknown>, segments: string[]): boolean {
+  const parent = getAtPath(root, segments.slice(0, -1));
+  const last = segments[segments.length - 1];
+  if (!isContainer(parent) || !(last in parent)) return false;
+
+  if (Array.isArray(parent)) {
+    parent.splice(Number(last), 1);
+  } else {
+    delete parent[last];
+  }
+  return true;
+}
@@ -0,0 +1,311 @@
+import { CONFIG_VERSION } from './migrations.js';
+import type { HshConfig, PickerSort } from '../types/index.js';
+
+/**
+ * Thrown when ~/.ai/config.json does not match the schema; every issue names the
+ * offending path, e.g. `yiren.todo-mini.prod.port: expected a port (1-65535), got "22a"`
+ */
+export class ConfigValidationError extends Error {
+  readonly issues: string[];
+
+  constructor(issues: string[]) {
+    super(`Invalid configuration:\n${issues.map((issue) => `  - ${issue}`).join('\n')}`);
+    this.name = 'ConfigValidationError';
+    this.issues = issues;
+  }
+}
+
+type Issues = string[];
+type JsonObject = Record<string, unknown>;
+
+const CLOUD_CONFIG_KEYS = ['ip', 'privateKeyFile', 'user', 'port', 'jumpHost', 'sshOptions'];
+const JUMP_HOST_KEYS = ['host', 'user', 'port', 'privateKeyFile'];
+const TUNNEL_PRESET_KEYS = ['env', 'local', 'remote', 'remoteHost'];
+const LOG_SOURCE_KEYS = ['file', 'unit', 'container'];
+const WORKING_DIRECTORY_KEYS = ['path', 'label'];
+const DISCOVERY_KEYS = ['ignore', 'maxDepth', 'followSymlinks', 'cacheTtlMinutes', 'mergeRepos'];
+const PICKER_KEYS = ['gitStatus', 'sort'];
+export const PICKER_SORTS: PickerSort[] = ['name', 'recent'];
+
+const describe = (value: unknown): string => {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'an array';
+  if (typeof value === 'string') return JSON.stringify(value);
+  if (typeof value === 'object') return 'an object';
+  return String(value);
+};
+
+const isObject = (value: unknown): value is JsonObject =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const join = (path: string, key: string): string => (path ? `${path}.${key}` : key);
+
+function expectObject(value: unknown, path: string, issues: Issues): value is JsonObject {
+  if (isObject(value)) return true;
+  issues.push(`${path}: expected an object, got ${describe(value)}`);
+  return false;
+}
+
+function expectString(value: unknown, path: string, issues: Issues, required = false): void {
+  if (value === undefined) {
+    if (required) issues.push(`${path}: is required`);
+    return;
+  }
+  if (typeof value !== 'string' || !value.trim()) {
+    issues.push(`${path}: expected a non-empty string, got ${describe(value)}`);
+  }
+}
+
+export const isValidPort = (value: unknown): value is number =>
+  Number.isInteger(value) && (value as number) >= 1 && (value as number) <= 65535;
+
+function expectPort(value: unknown, path: string, issues: Issues, required = false): void {
+  if (value === undefined) {
+    if (required) issues.push(`${path}: is required`);
+    return;
+  }
+  if (!isValidPort(value)) {
+    issues.push(`${path}: expected a port (1-65535), got ${describe(value)}`);
+  }
+}
+
+function checkKnownKeys(value: JsonObject, allowed: string[], path: string, issues: Issues): void {
+  for (const key of Object.keys(value)) {
+    if (!allowed.includes(key)) {
+      issues.push(`${join(path, key)}: unknown key (expected one of ${allowed.join(', ')})`);
+    }
+  }
+}
+
+function checkStringMap(value: unknown, path: string, issues: Issues): void {
+  if (value === undefined || !expectObject(value, path, issues)) return;
+  for (const [key, item] of Object.entries(value)) {
+    expectString(item, join(path, key), issues);
+  }
+}
+
+function checkCloudConfig(value: unknown, path: string, issues: Issues): void {
+  if (!expectObject(value, path, issues)) return;
+  checkKnownKeys(value, CLOUD_CONFIG_KEYS, path, issues);
+  expectString(value.ip, join(path, 'ip'), issues, true);
+  expectString(value.privateKeyFile, join(path, 'privateKeyFile'), issues, true);
+  expectString(value.user, join(path, 'user'), issues);
+  expectPort(value.port, join(path, 'port'), issues);
+
+  const jumpPath = join(path, 'jumpHost');
+  if (isObject(value.jumpHost)) {
+    checkKnownKeys(value.jumpHost, JUMP_HOST_KEYS, jumpPath, issues);
+    expectString(value.jumpHost.host, join(jumpPath, 'host'), issues, true);
+    expectString(value.jumpHost.user, join(jumpPath, 'user'), issues);
+    expectPort(value.jumpHost.port, join(jumpPath, 'port'), issues);
+    expectString(value.jumpHost.privateKeyFile, join(jumpPath, 'privateKeyFile'), issues);
+  } else {
+    expectString(value.jumpHost, jumpPath, issues);
+  }
+
+  const optionsPath = join(path, 'sshOptions');
+  if (value.sshOptions !== undefined && expectObject(value.sshOptions, optionsPath, issues)) {
+    for (const [option, setting] of Object.entries(value.sshOptions)) {
+      if (typeof setting !== 'string' && typeof setting !== 'number') {
+        issues.push(`${join(optionsPath, option)}: expected a string or number`);
+      }
+    }
+  }
+}
+
+function checkTunnels(value: unknown, path: string, issues: Issues): void {
+  if (!expectObject(value, path, issues)) return;
+  for (const [name, preset] of Object.entries(value)) {
+    const presetPath = join(path, name);
+    if (!expectObject(preset, presetPath, issues)) continue;
+    checkKnownKeys(preset, TUNNEL_PRESET_KEYS, presetPath, issues);
+    expectString(preset.env, join(presetPath, 'env'), issues);
+    expectPort(preset.local, join(presetPath, 'local'), issues);
+    expectPort(preset.remote, join(presetPath, 'remote'), issues, true);
+    expectString(preset.remoteHost, join(presetPath, 'remoteHost'), issues);
+  }
+}
+
+function checkLogs(value: unknown, path: string, issues: Issues): void {
+  if (!expectObject(value, path, issues)) return;
+  for (const [name, source] of Object.entries(value)) {
+    const sourcePath = join(path, name);
+    if (!expectObject(source, sourcePath, issues)) continue;
+    checkKnownKeys(source, LOG_SOURCE_KEYS, sourcePath, issues);
+    LOG_SOURCE_KEYS.forEach((key) => expectString(source[key], join(sourcePath, key), issues));
+    if (LOG_SOURCE_KEYS.filter((key) => source[key] !== undefined).length !== 1) {
+      issues.push(`${sourcePath}: set exactly one of "file", "unit" or "container"`);
+    }
+  }
+}
+
+function checkYiren(value: unknown, issues: Issues): void {
+  if (value === undefined || !expectObject(value, 'yiren', issues)) return;
+  for (const [service, serviceConfig] of Object.entries(value)) {
+    const servicePath = join('yiren', service);
+    if (!expectObject(serviceConfig, servicePath, issues)) continue;
+    for (const [key, entry] of Object.entries(serviceConfig)) {
+      if (key === 'tunnels') checkTunnels(entry, join(servicePath, key), issues);
+      else if (key === 'logs') checkLogs(entry, join(servicePath, key), issues);
+      else checkCloudConfig(entry, join(servicePath, key), issues);
+    }
+  }
+}
+
+function checkWorkingDirectories(value: unknown, issues: Issues): void {
+  if (value === undefined) return;
+  if (!Array.isArray(value)) {
+    issues.push(`workingDirectories: expected an array, got ${describe(value)}`);
+    return;
+  }
+
+  value.forEach((entry, index) => {
+    const path = `workingDirectories[${index}]`;
+    if (typeof entry === 'string') {
+      expectString(entry, path, issues);
+      return;
+    }
+    if (!isObject(entry)) {
+      issues.push(`${path}: expected a path or { path, label }, got ${describe(entry)}`);
+      return;
+    }
+    checkKnownKeys(entry, WORKING_DIRECTORY_KEYS, path, issues);
+    expectString(entry.path, `${path}.path`, issues, true);
+    expectString(entry.label, `${path}.label`, issues);
+  });
+}
+
+function checkDiscovery(value: unknown, issues: Issues): void {
+  if (value === undefined || !expectObject(value, 'discovery', issues)) return;
+  checkKnownKeys(value, DISCOVERY_KEYS, 'discovery', issues);
+
+  if (value.ignore !== undefined) {
+    if (!Array.isArray(value.ignore)) {
+      issues.push(`discovery.ignore: expected an array of globs, got ${describe(value.ignore)}`);
+    } else {
+      value.ignore.forEach((glob, index) =>
+        expectString(glob, `discovery.ignore[${index}]`, issues)
+      );
+    }
+  }
+  if (
+    value.maxDepth !== undefined &&
+    (!Number.isInteger(value.maxDepth) || (value.maxDepth as number) < 0)
+  ) {
+    issues.push(
+      `discovery.maxDepth: expected a whole number >= 0, got ${describe(value.maxDepth)}`
+    );
+  }
+  if (
+    value.cacheTtlMinutes !== undefined &&
+    (typeof value.cacheTtlMinutes !== 'number' || value.cacheTtlMinutes < 0)
+  ) {
+    issues.push(
+      `discovery.cacheTtlMinutes: expected a number >= 0, got ${describe(value.cacheTtlMinutes)}`
+    );
+  }
+  if (value.followSymlinks !== undefined && typeof value.followSymlinks !== 'boolean') {
+    issues.push(
+      `discovery.followSymlinks: expected true or false, got ${describe(value.followSymlinks)}`
+    );
+  }
+  if (value.mergeRepos !== undefined && typeof value.mergeRepos !== 'boolean') {
+    issues.push(`discovery.mergeRepos: expected true or false, got ${describe(value.mergeRepos)}`);
+  }
+}
+
+function checkPicker(value: unknown, issues: Issues): void {
+  if (value === undefined || !expectObject(value, 'picker', issues)) return;
+  checkKnownKeys(value, PICKER_KEYS, 'picker', issues);
+
+  if (value.gitStatus !== undefined && typeof value.gitStatus !== 'boolean') {
+    issues.push(`picker.gitStatus: expected true or false, got ${describe(value.gitStatus)}`);
+  }
+  if (value.sort !== undefined && !PICKER_SORTS.includes(value.sort as PickerSort)) {
+    issues.push(
+      `picker.sort: expected one of ${PICKER_SORTS.join(', ')}, got ${describe(value.sort)}`
+    );
+  }
+}
+
+const TOP_LEVEL_KEYS = [
+  'version',
+  'include',
+  'workingDirectory',
+  'workingDirectories',
+  'discovery',
+  'picker',
+  'repos',
+  'yiren',
+  'urls',
+  'urlGroups',
+];
+
+/**
+ * Check a (migrated) config object against the HshConfig schema
+ */
+export function validateConfig(config: unknown): void {
+  const issues: Issues = [];
+
+  if (!isObject(config)) {
+    throw new ConfigValidationError([`(root): expected an object, got ${describe(config)}`]);
+  }
+
+  checkKnownKeys(config, TOP_LEVEL_KEYS, '', issues);
+
+  if (config.version !== undefined && !Number.isInteger(config.version)) {
+    issues.push(`version: expected an integer, got ${describe(config.version)}`);
+  } else if ((config.version as number) > CONFIG_VERSION) {
+    issues.push(
+      `version: ${config.version} was written by a newer ai-summon (this one reads up to ${CONFIG_VERSION}); upgrade the CLI`
+    );
+  }
+
+  if (config.include !== undefined) {
+    if (!Array.isArray(config.include)) {
+      issues.push(`include: expected an array of file paths, got ${describe(config.include)}`);
+    } else {
+      config.include.forEach((file, index) => expectString(file, `include[${index}]`, issues));
+    }
+  }
+
+  expectString(config.workingDirectory, 'workingDirectory', issues);
+  checkWorkingDirectories(config.workingDirectories, issues);
+  checkDiscovery(config.discovery, issues);
+  checkPicker(config.picker, issues);
+
+  if (config.repos !== undefined && expectObject(config.repos, 'repos', issues)) {
+    for (const [group, repos] of Object.entries(config.repos)) {
+      checkStringMap(repos, join('repos', group), issues);
+    }
+  }
+
+  checkYiren(config.yiren, issues);
+  checkStringMap(config.urls, 'urls', issues);
+
+  if (config.urlGroups !== undefined && expectObject(config.urlGroups, 'urlGroups', issues)) {
+    for (const [group, urls] of Object.entries(config.urlGroups)) {
+      const groupPath = join('urlGroups', group);
+      if (!Array.isArray(urls)) {
+        issues.push(`${groupPath}: expected an array of URLs, got ${describe(urls)}`);
+        continue;
+      }
+      urls.forEach((url, index) => expectString(url, `${groupPath}[${index}]`, issues));
+    }
+  }
+
+  if (issues.length > 0) {
+    throw new ConfigValidationError(issues);
+  }
+}
+
+/**
+ * Fill in the optional sections so callers can index them directly
+ */
+export const normalizeConfig = (config: HshConfig): HshConfig => ({
+  ...config,
+  repos: config.repos ?? {},
+  yiren: config.yiren ?? {},
+  urls: config.urls ?? {},
+  urlGroups: config.urlGroups ?? {},
+});
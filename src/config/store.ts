@@ -0,0 +1,185 @@
+import {
+  appendFileSync,
+  closeSync,
+  copyFileSync,
+  existsSync,
+  fsyncSync,
+  mkdirSync,
+  openSync,
+  readFileSync,
+  renameSync,
+  rmSync,
+  statSync,
+  writeFileSync,
+  writeSync,
+} from 'fs';
+import { basename, dirname, join, resolve } from 'path';
+import type { ConfigBackupEntry } from '../types/index.js';
+
+const LOCK_TIMEOUT_MS = 10_000;
+const LOCK_RETRY_MS = 50;
+// A lock older than this is left over from a crashed process
+const LOCK_STALE_MS = 30_000;
+const MAX_BACKUPS = 20;
+
+// Lock path -> nesting depth of the locks this process holds
+const heldLocks = new Map<string, number>();
+
+const sleepSync = (ms: number): void => {
+  Atomics.wait(new Int32Array(new SharedArrayBuffer(4)), 0, 0, ms);
+};
+
+/**
+ * Whether a process with this pid exists. One owned by another user (EPERM) counts,
+ * unless `ownOnly` is set, e.g. when the caller is about to signal it.
+ */
+export const isProcessAlive = (pid: number, options?: { ownOnly?: boolean }): boolean => {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (error) {
+    return !options?.ownOnly && (error as { code?: string }).code === 'EPERM';
+  }
+};
+
+const isStaleLock = (lockPath: string): boolean => {
+  try {
+    const pid = Number(readFileSync(lockPath, 'utf-8').trim());
+    if (Number.isInteger(pid) && pid > 0 && !isProcessAlive(pid)) return true;
+    return Date.now() - statSync(lockPath).mtimeMs > LOCK_STALE_MS;
+  } catch {
+    // Removed between our open attempt and now: not stale, just retry
+    return false;
+  }
+};
+
+/**
+ * Run `fn` while holding an advisory lock file next to `filePath`. The lock is
+ * re-entrant within this process so a read-modify-write can call other locked helpers;
+ * a nested call for a different file still takes that file's lock.
+ */
+export function withFileLock<T>(filePath: string, fn: () => T): T {
+  const lockPath = resolve(`${filePath}.lock`);
+  const depth = heldLocks.get(lockPath) ?? 0;
+  if (depth > 0) {
+    heldLocks.set(lockPath, depth + 1);
+    try {
+      return fn();
+    } finally {
+      heldLocks.set(lockPath, depth);
+    }
+  }
+
+  const deadline = Date.now() + LOCK_TIMEOUT_MS;
+
+  for (;;) {
+    try {
+      const fd = openSync(lockPath, 'wx');
+      writeSync(fd, String(process.pid));
+      closeSync(fd);
+      break;
+    } catch (error) {
+      if ((error as { code?: string }).code !== 'EEXIST') throw error;
+      if (isStaleLock(lockPath)) {
+        rmSync(lockPath, { force: true });
+        continue;
+      }
+      if (Date.now() > deadline) {
+        throw new Error(
+          `Timed out waiting for ${lockPath}; another ai command is writing the config ` +
+            `(delete the lock file if no other command is running)`
+        );
+      }
+      sleepSync(LOCK_RETRY_MS);
+    }
+  }
+
+  heldLocks.set(lockPath, 1);
+  try {
+    return fn();
+  } finally {
+    heldLocks.delete(lockPath);
+    rmSync(lockPath, { force: true });
+  }
+}
+
+/**
+ * Write to a temp file in the same directory, flush it and rename it over the target,
+ * so readers see either the old or the new content, never a truncated file
+ */
+export function writeFileAtomic(filePath: string, content: string): void {
+  const tempPath = join(dirname(filePath), `.${basename(filePath)}.${process.pid}.tmp`);
+  const fd = openSync(tempPath, 'w', 0o600);
+  try {
+    writeSync(fd, content);
+    fsyncSync(fd);
+  } finally {
+    closeSync(fd);
+  }
+  try {
+    renameSync(tempPath, filePath);
+  } catch (error) {
+    rmSync(tempPath, { force: true });
+    throw error;
+  }
+}
+
+const getBackupDir = (filePath: string): string => {
+  const dir = join(dirname(filePath), 'backups');
+  mkdirSync(dir, { recursive: true });
+  return dir;
+};
+
+const getHistoryPath = (filePath: string): string => join(getBackupDir(filePath), 'history.jsonl');
+
+/**
+ * Oldest first; entries whose backup file has been pruned are dropped
+ */
+export function readBackupHistory(filePath: string): ConfigBackupEntry[] {
+  const historyPath = getHistoryPath(filePath);
+  if (!existsSync(historyPath)) return [];
+
+  const backupDir = getBackupDir(filePath);
+  return readFileSync(historyPath, 'utf-8')
+    .split('\n')
+    .filter(Boolean)
+    .flatMap((line) => {
+      try {
+        return [JSON.parse(line) as ConfigBackupEntry];
+      } catch {
+        return [];
+      }
+    })
+    .filter((entry) => existsSync(join(backupDir, entry.file)));
+}
+
+export const readBackup = (filePath: string, entry: ConfigBackupEntry): string =>
+  readFileSync(join(getBackupDir(filePath), entry.file), 'utf-8');
+
+/**
+ * Copy the current file into the backup directory before it is replaced and record
+ * which command replaced it. Only the newest MAX_BACKUPS copies are kept.
+ */
+export function backupFile(filePath: string, command: string): void {
+  if (!existsSync(filePath)) return;
+
+  const backupDir = getBackupDir(filePath);
+  const createdAt = Date.now();
+  const stamp = new Date(createdAt).toISOString().replace(/[:.]/g, '-');
+  let file = `${basename(filePath, '.json')}.${stamp}.json`;
+  for (let n = 1; existsSync(join(backupDir, file)); n++) {
+    file = `${basename(filePath, '.json')}.${stamp}-${n}.json`;
+  }
+
+  copyFileSync(filePath, join(backupDir, file));
+  const entry: ConfigBackupEntry = { file, createdAt, command };
+  appendFileSync(getHistoryPath(filePath), JSON.stringify(entry) + '\n', 'utf-8');
+
+  const history = readBackupHistory(filePath);
+  if (history.length > MAX_BACKUPS) {
+    const expired = history.slice(0, history.length - MAX_BACKUPS);
+    expired.forEach((old) => rmSync(join(backupDir, old.file), { force: true }));
+    const kept = history.slice(-MAX_BACKUPS).map((entry) => JSON.stringify(entry) + '\n');
+    writeFileSync(getHistoryPath(filePath), kept.join(''), 'utf-8');
+  }
+}
@@ -0,0 +1,83 @@
+import { $ } from 'zx';
+import { createLimiter } from './scanner.js';
+import type { GitStatus } from '../util.js';
+
+// Checkouts read at the same time; each runs two git processes
+const DEFAULT_CONCURRENCY = 8;
+
+export interface GitStatusOptions {
+  budgetMs: number; // no git process is started after this; unfinished checkouts wait for the next run
+  concurrency?: number;
+  onStatus?: (path: string, status: GitStatus) => void;
+}
+
+/**
+ * Parse `git status --porcelain=v2 --branch`: `# branch.*` headers, then one line per change
+ */
+const parseStatus = (output: string): Omit<GitStatus, 'updatedAt' | 'lastCommitAt'> => {
+  const status: Omit<GitStatus, 'updatedAt' | 'lastCommitAt'> = { dirty: false };
+  for (const line of output.split('\n')) {
+    if (!line) continue;
+    if (!line.startsWith('# ')) {
+      status.dirty = true;
+      continue;
+    }
+
+    const [header, ...values] = line.slice(2).split(' ');
+    if (header === 'branch.head') {
+      if (values[0] === '(detached)') status.detached = true;
+      else status.branch = values[0];
+    } else if (header === 'branch.ab') {
+      status.ahead = Math.abs(Number(values[0]));
+      status.behind = Math.abs(Number(values[1]));
+    }
+  }
+  return status;
+};
+
+/**
+ * Branch, changes and last commit time of one checkout; only `updatedAt` is set when
+ * `path` is not a git repository
+ */
+export async function readGitStatus(path: string): Promise<GitStatus> {
+  const [status, log] = await Promise.all([
+    // Without optional locks, so an open editor's git operations are not blocked
+    $`git --no-optional-locks -C ${path} status --porcelain=v2 --branch`.quiet().nothrow(),
+    $`git -C ${path} log -1 --format=%ct`.quiet().nothrow(),
+  ]);
+  const updatedAt = Date.now();
+  if (status.exitCode !== 0) return { updatedAt };
+
+  // Fails in a repository without commits
+  const committedAt = Number(log.stdout.trim()) * 1000;
+  return {
+    updatedAt,
+    ...parseStatus(status.stdout),
+    ...(log.exitCode === 0 && committedAt > 0 ? { lastCommitAt: committedAt } : {}),
+  };
+}
+
+/**
+ * Read the status of several checkouts concurrently, in the given order, until the
+ * time budget runs out
+ */
+export async function collectGitStatuses(
+  paths: string[],
+  options: GitStatusOptions
+): Promise<Record<string, GitStatus>> {
+  const limit = createLimiter(options.concurrency ?? DEFAULT_CONCURRENCY);
+  const deadline = Date.now() + options.budgetMs;
+  const statuses: Record<string, GitStatus> = {};
+
+  await Promise.all(
+    paths.map((path) =>
+      limit(async () => {
+        if (Date.now() > deadline) return;
+        const status = await readGitStatus(path);
+        statuses[path] = status;
+        options.onStatus?.(path, status);
+      })
+    )
+  );
+  return statuses;
+}
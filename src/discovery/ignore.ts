@@ -0,0 +1,80 @@
+import { existsSync, readFileSync } from 'fs';
+import { join } from 'path';
+
+// Never worth scanning for repositories; a `!pattern` rule can still re-include them
+export const DEFAULT_IGNORE = ['node_modules', '.cache', '.venv', '__pycache__'];
+
+// Optional per-working-directory rules, one gitignore-style glob per line
+export const IGNORE_FILE = '.aiignore';
+
+interface IgnoreRule {
+  pattern: string;
+  negated: boolean;
+  regex: RegExp;
+}
+
+/**
+ * `*` and `?` stay within one folder, `**` spans folders, `[...]` is a character class
+ */
+const globToRegExp = (glob: string): RegExp => {
+  let source = '';
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (char === '*' && glob[i + 1] === '*') {
+      // `**/` matches zero or more folders, any other `**` everything
+      const slash = glob[i + 2] === '/';
+      source += slash ? '(?:.*/)?' : '.*';
+      i += slash ? 2 : 1;
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else if (char === '[' && glob.indexOf(']', i + 2) !== -1) {
+      const end = glob.indexOf(']', i + 2);
+      const body = glob.slice(i + 1, end).replace(/\\/g, '\\\\');
+      source += `[${body.startsWith('!') ? `^${body.slice(1)}` : body}]`;
+      i = end;
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${source}$`);
+};
+
+const parseRule = (line: string): IgnoreRule | undefined => {
+  const trimmed = line.trim();
+  if (!trimmed || trimmed.startsWith('#')) return undefined;
+
+  const negated = trimmed.startsWith('!');
+  // Only folders are matched, so a trailing slash changes nothing
+  const pattern = (negated ? trimmed.slice(1) : trimmed).replace(/\/+$/, '');
+  // Like .gitignore: a pattern with a slash is relative to the working directory,
+  // one without matches a folder name at any depth
+  const anchored = pattern.includes('/');
+  const glob = anchored ? pattern.replace(/^\//, '') : `**/${pattern}`;
+  return { pattern: trimmed, negated, regex: globToRegExp(glob) };
+};
+
+/**
+ * Build the matcher for one working directory: defaults, then `discovery.ignore`, then
+ * its .aiignore. Given a `/`-separated path relative to the working directory, returns
+ * the rule that ignores it, if any; the last matching rule wins.
+ */
+export function createIgnoreMatcher(
+  workingDirectory: string,
+  patterns: string[] = []
+): (relativePath: string) => string | undefined {
+  const ignoreFile = join(workingDirectory, IGNORE_FILE);
+  const fileLines = existsSync(ignoreFile) ? readFileSync(ignoreFile, 'utf-8').split('\n') : [];
+
+  // Later rules take precedence, so check them first
+  const rules = [...DEFAULT_IGNORE, ...patterns, ...fileLines]
+    .map(parseRule)
+    .filter((rule): rule is IgnoreRule => rule !== undefined)
+    .reverse();
+
+  return (relativePath) => {
+    const match = rules.find((rule) => rule.regex.test(relativePath));
+    return match && !match.negated ? match.pattern : undefined;
+  };
+}
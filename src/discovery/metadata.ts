@@ -0,0 +1,189 @@
+import { readdir, readFile } from 'fs/promises';
+import { existsSync } from 'fs';
+import { extname, join, resolve } from 'path';
+import { DEFAULT_IGNORE } from './ignore.js';
+import type { RepoMetadata } from '../types/index.js';
+
+// Bounds for the language count, so a large repository costs about as much as a small one
+const LANGUAGE_MAX_FILES = 500;
+const LANGUAGE_MAX_DEPTH = 3;
+const LANGUAGE_SKIPPED_DIRS = new Set([...DEFAULT_IGNORE, 'vendor', 'dist', 'build', 'target']);
+const MAX_LANGUAGES = 3;
+const MAX_TITLE_LENGTH = 80;
+
+const README_FILES = ['README.md', 'readme.md', 'Readme.md', 'README.markdown', 'README'];
+
+const LANGUAGES: Record<string, string> = {
+  '.ts': 'TypeScript',
+  '.tsx': 'TypeScript',
+  '.js': 'JavaScript',
+  '.jsx': 'JavaScript',
+  '.mjs': 'JavaScript',
+  '.cjs': 'JavaScript',
+  '.py': 'Python',
+  '.go': 'Go',
+  '.rs': 'Rust',
+  '.java': 'Java',
+  '.kt': 'Kotlin',
+  '.swift': 'Swift',
+  '.m': 'Objective-C',
+  '.rb': 'Ruby',
+  '.php': 'PHP',
+  '.cs': 'C#',
+  '.c': 'C',
+  '.h': 'C',
+  '.cc': 'C++',
+  '.cpp': 'C++',
+  '.hpp': 'C++',
+  '.scala': 'Scala',
+  '.dart': 'Dart',
+  '.ex': 'Elixir',
+  '.exs': 'Elixir',
+  '.lua': 'Lua',
+  '.sh': 'Shell',
+  '.vue': 'Vue',
+  '.svelte': 'Svelte',
+};
+
+const readText = (path: string): Promise<string | undefined> =>
+  readFile(path, 'utf-8').catch(() => undefined);
+
+async function readPackageJson(
+  dir: string
+): Promise<Pick<RepoMetadata, 'packageName' | 'description' | 'keywords'>> {
+  const text = await readText(join(dir, 'package.json'));
+  if (!text) return {};
+  try {
+    const { name, description, keywords } = JSON.parse(text);
+    return {
+      ...(typeof name === 'string' && name ? { packageName: name } : {}),
+      ...(typeof description === 'string' && description ? { description } : {}),
+      ...(Array.isArray(keywords) && keywords.length > 0
+        ? { keywords: keywords.filter((keyword) => typeof keyword === 'string') }
+        : {}),
+    };
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * `org/repo` from an SSH or HTTPS remote URL, e.g. `git@github.com:org/repo.git`
+ */
+const parseRemote = (url: string): string | undefined => {
+  const path = url
+    .trim()
+    .replace(/\.git$/, '')
+    .replace(/^[a-z+]+:\/\/[^/]+\//i, '')
+    .replace(/^[^@/]+@[^:]+:/, '');
+  const segments = path.split('/').filter(Boolean);
+  return segments.length >= 2 ? segments.slice(-2).join('/') : undefined;
+};
+
+/**
+ * The `origin` remote, or the first one, from the repository's git config. Linked
+ * worktrees share the config of their main checkout; a submodule's `.git` file points at
+ * its own git directory under the superproject's `.git/modules`.
+ */
+async function readRemote(dir: string, worktreeOf?: string): Promise<string | undefined> {
+  const gitFile = worktreeOf ? undefined : await readText(join(dir, '.git'));
+  const gitDir = gitFile && /^gitdir:\s*(.+)$/m.exec(gitFile)?.[1].trim();
+  const configPath = worktreeOf
+    ? [join(worktreeOf, '.git', 'config'), join(worktreeOf, 'config')].find((path) =>
+        existsSync(path)
+      )
+    : join(gitDir ? resolve(dir, gitDir) : join(dir, '.git'), 'config');
+  const text = configPath && (await readText(configPath));
+  if (!text) return undefined;
+
+  const remotes = new Map<string, string>();
+  let section: string | undefined;
+  for (const line of text.split('\n')) {
+    const header = /^\s*\[remote\s+"([^"]+)"\]/.exec(line);
+    if (header || /^\s*\[/.test(line)) {
+      section = header?.[1];
+      continue;
+    }
+    const url = /^\s*url\s*=\s*(.+)$/.exec(line);
+    if (section && url && !remotes.has(section)) remotes.set(section, url[1]);
+  }
+
+  const url = remotes.get('origin') ?? remotes.values().next().value;
+  return url ? parseRemote(url) : undefined;
+}
+
+/**
+ * Markdown title of the README: the first `# Title` (or `Title` underlined with `===`)
+ * without badges and links, or its first line for other formats
+ */
+async function readReadmeTitle(dir: string): Promise<string | undefined> {
+  for (const file of README_FILES) {
+    const text = await readText(join(dir, file));
+    if (text === undefined) continue;
+
+    const lines = text.split('\n').map((line) => line.trim());
+    const index = lines.findIndex(
+      (line, i) => /^#\s+\S/.test(line) || (line && /^=+$/.test(lines[i + 1] ?? ''))
+    );
+    const title = (index === -1 ? (lines.find(Boolean) ?? '') : lines[index])
+      .replace(/^#\s+/, '')
+      .replace(/!\[[^\]]*\]\([^)]*\)/g, '')
+      .replace(/\[([^\]]*)\]\([^)]*\)/g, '$1')
+      .replace(/\s+#*$/, '')
+      .trim();
+    return title ? title.slice(0, MAX_TITLE_LENGTH) : undefined;
+  }
+  return undefined;
+}
+
+/**
+ * Most common languages by file extension, breadth-first over at most LANGUAGE_MAX_FILES
+ * entries
+ */
+async function readLanguages(dir: string): Promise<string[]> {
+  const counts = new Map<string, number>();
+  const queue = [{ path: dir, depth: 0 }];
+  let seen = 0;
+
+  while (queue.length > 0 && seen < LANGUAGE_MAX_FILES) {
+    const { path, depth } = queue.shift()!;
+    const entries = await readdir(path, { withFileTypes: true }).catch(() => []);
+    for (const entry of entries) {
+      if (++seen > LANGUAGE_MAX_FILES) break;
+      if (entry.isDirectory()) {
+        const skipped = entry.name.startsWith('.') || LANGUAGE_SKIPPED_DIRS.has(entry.name);
+        if (depth < LANGUAGE_MAX_DEPTH && !skipped) {
+          queue.push({ path: join(path, entry.name), depth: depth + 1 });
+        }
+        continue;
+      }
+      const language = LANGUAGES[extname(entry.name).toLowerCase()];
+      if (entry.isFile() && language) counts.set(language, (counts.get(language) ?? 0) + 1);
+    }
+  }
+
+  return [...counts]
+    .sort(([a, countA], [b, countB]) => countB - countA || a.localeCompare(b))
+    .slice(0, MAX_LANGUAGES)
+    .map(([language]) => language);
+}
+
+/**
+ * Searchable details of a repository; fields that cannot be read are left out
+ */
+export async function readRepoMetadata(dir: string, worktreeOf?: string): Promise<RepoMetadata> {
+  const [packageJson, remote, readmeTitle, languages] = await Promise.all([
+    readPackageJson(dir),
+    readRemote(dir, worktreeOf),
+    readReadmeTitle(dir),
+    readLanguages(dir),
+  ]);
+
+  return {
+    indexedAt: Date.now(),
+    ...packageJson,
+    ...(remote ? { remote } : {}),
+    ...(languages.length > 0 ? { languages } : {}),
+    ...(readmeTitle ? { readmeTitle } : {}),
+  };
+}
@@ -0,0 +1,306 @@
+import { lstat, readdir, readFile, realpath, stat } from 'fs/promises';
+import { basename, dirname, join, resolve, sep } from 'path';
+import { createIgnoreMatcher } from './ignore.js';
+import { readRepoMetadata } from './metadata.js';
+import { listWorktrees } from './worktrees.js';
+import type { GitRepository } from '../util.js';
+import type {
+  DirectoryIndex,
+  DiscoveryConfig,
+  IndexedDirectory,
+  SkippedDirectory,
+} from '../types/index.js';
+
+// Directories read at the same time; enough to keep the disk busy without running out of fds
+const DEFAULT_CONCURRENCY = 32;
+
+// package.json or README edits do not change the repository folder's mtime
+const METADATA_MAX_AGE_MS = 24 * 60 * 60_000;
+
+export interface ScanOptions {
+  previous?: DirectoryIndex; // index of the last scan; unchanged directories are not re-read
+  onSkip?: (skipped: SkippedDirectory) => void;
+  concurrency?: number;
+}
+
+export interface ScanResult {
+  repos: GitRepository[];
+  dirs: DirectoryIndex;
+}
+
+/**
+ * Run at most `concurrency` tasks at once; a finished task hands its slot to the next waiter
+ */
+export const createLimiter = (concurrency: number) => {
+  let active = 0;
+  const waiting: Array<() => void> = [];
+
+  return async <T>(task: () => Promise<T>): Promise<T> => {
+    if (active < concurrency) {
+      active++;
+    } else {
+      await new Promise<void>((resolve) => waiting.push(resolve));
+    }
+    try {
+      return await task();
+    } finally {
+      const next = waiting.shift();
+      if (next) next();
+      else active--;
+    }
+  };
+};
+
+const isDirectoryLink = async (path: string): Promise<boolean> => {
+  try {
+    return (await stat(path)).isDirectory();
+  } catch {
+    // Dangling link
+    return false;
+  }
+};
+
+/**
+ * The main checkout of a linked worktree, whose `.git` is a file pointing at
+ * `<main>/.git/worktrees/<name>` (or `<bare repo>/worktrees/<name>`). Submodules also
+ * have a `.git` file, pointing into `.git/modules`, and are not worktrees.
+ */
+async function readWorktreeOf(dir: string): Promise<string | undefined> {
+  const gitPath = join(dir, '.git');
+  if (!(await lstat(gitPath)).isFile()) return undefined;
+
+  const match = /^gitdir:\s*(.+)$/m.exec(await readFile(gitPath, 'utf-8'));
+  if (!match) return undefined;
+  // Relative since git 2.48 with worktree.useRelativePaths
+  const gitDir = resolve(dir, match[1].trim());
+  if (basename(dirname(gitDir)) !== 'worktrees') return undefined;
+
+  const commonDir = dirname(dirname(gitDir));
+  return basename(commonDir) === '.git' ? dirname(commonDir) : commonDir;
+}
+
+/**
+ * Linked worktrees of the found repositories that live outside the working directory,
+ * from `git worktree list`. Only repositories with a `.git/worktrees` folder start a git
+ * process. Worktrees inside the working directory are left to the scan, so ignore rules
+ * and maxDepth still apply to them.
+ */
+async function findExternalWorktrees(
+  workingDirectory: string,
+  repos: GitRepository[],
+  limit: ReturnType<typeof createLimiter>
+): Promise<GitRepository[]> {
+  // git prints real paths
+  const roots = [workingDirectory, await realpath(workingDirectory).catch(() => workingDirectory)];
+  const isOutside = (path: string) =>
+    !roots.some((root) => path === root || path.startsWith(root + sep));
+
+  const found = await Promise.all(
+    repos
+      .filter((repo) => !repo.worktreeOf)
+      .map((repo) =>
+        limit(async () => {
+          if (!(await stat(join(repo.path, '.git', 'worktrees')).catch(() => undefined))) {
+            return [];
+          }
+          const worktrees = (await listWorktrees(repo.path)).filter(
+            (worktree) =>
+              !worktree.main && !worktree.bare && !worktree.prunable && isOutside(worktree.path)
+          );
+          // Not in the directory index, so their metadata is read again on every scan
+          return Promise.all(
+            worktrees.map(async (worktree) => ({
+              name: basename(worktree.path),
+              path: worktree.path,
+              topLevelFolder: repo.topLevelFolder,
+              root: workingDirectory,
+              worktreeOf: repo.path,
+              metadata: await readRepoMetadata(worktree.path, repo.path),
+            }))
+          );
+        })
+      )
+  );
+  return found.flat();
+}
+
+/**
+ * Initialized submodules of the found repositories, from their `.gitmodules`. The scan
+ * stops at a repository and never reaches them. Only one level is listed: submodules of
+ * submodules are not.
+ */
+async function findSubmodules(
+  workingDirectory: string,
+  repos: GitRepository[],
+  limit: ReturnType<typeof createLimiter>
+): Promise<GitRepository[]> {
+  const found = await Promise.all(
+    repos
+      .filter((repo) => !repo.worktreeOf)
+      .map((repo) =>
+        limit(async () => {
+          const text = await readFile(join(repo.path, '.gitmodules'), 'utf-8').catch(() => '');
+          const paths = [...text.matchAll(/^\s*path\s*=\s*(.+?)\s*$/gm)]
+            .map((match) => resolve(repo.path, match[1]))
+            .filter((path) => path.startsWith(repo.path + sep));
+
+          const submodules: GitRepository[] = [];
+          for (const path of paths) {
+            // Not cloned yet (`git submodule update --init`): the folder is empty
+            if (!(await lstat(join(path, '.git')).catch(() => undefined))) continue;
+            // Not in the directory index, so their metadata is read again on every scan
+            submodules.push({
+              name: basename(path),
+              path,
+              topLevelFolder: repo.topLevelFolder,
+              root: workingDirectory,
+              submoduleOf: repo.path,
+              metadata: await readRepoMetadata(path),
+            });
+          }
+          return submodules;
+        })
+      )
+  );
+  return found.flat();
+}
+
+/**
+ * Read one directory, or reuse the previous scan's entry when its mtime is unchanged:
+ * adding or removing an entry (including .git) always updates the directory's mtime
+ */
+async function readDirectory(dir: string, cached?: IndexedDirectory): Promise<IndexedDirectory> {
+  const { mtimeMs } = await stat(dir);
+  if (cached && cached.mtimeMs === mtimeMs) return cached;
+
+  const entries = await readdir(dir, { withFileTypes: true });
+  if (entries.some((entry) => entry.name === '.git')) {
+    return { mtimeMs, repo: true };
+  }
+
+  const subdirs = entries.filter((entry) => entry.isDirectory()).map((entry) => entry.name);
+  const links: string[] = [];
+  for (const entry of entries) {
+    if (entry.isSymbolicLink() && (await isDirectoryLink(join(dir, entry.name)))) {
+      links.push(entry.name);
+    }
+  }
+
+  return {
+    mtimeMs,
+    ...(subdirs.length > 0 ? { subdirs } : {}),
+    ...(links.length > 0 ? { links } : {}),
+  };
+}
+
+/**
+ * Find the git repositories under a working directory, reading directories in parallel.
+ * Ignore rules, maxDepth and the symlink policy are applied on every scan, so changing
+ * them takes effect even for directories whose index entry is reused.
+ */
+export async function scanGitRepositories(
+  workingDirectory: string,
+  discovery: DiscoveryConfig = {},
+  options: ScanOptions = {}
+): Promise<ScanResult> {
+  const { previous, onSkip } = options;
+  const limit = createLimiter(options.concurrency ?? DEFAULT_CONCURRENCY);
+  const isIgnored = createIgnoreMatcher(workingDirectory, discovery.ignore);
+  const maxDepth = discovery.maxDepth ?? Infinity;
+
+  const repos: GitRepository[] = [];
+  const dirs: DirectoryIndex = {};
+  // Real path -> first path it was scanned under, so symlink loops end
+  const scanned = new Map<string, string>();
+
+  const visit = async (
+    dir: string,
+    relativePath: string,
+    depth: number,
+    topLevelFolder: string
+  ): Promise<void> => {
+    let indexed: IndexedDirectory;
+    try {
+      if (discovery.followSymlinks) {
+        const realPath = await limit(() => realpath(dir));
+        const firstPath = scanned.get(realPath);
+        if (firstPath) {
+          onSkip?.({ path: dir, reason: 'already-scanned', detail: firstPath });
+          return;
+        }
+        scanned.set(realPath, dir);
+      }
+      indexed = await limit(() => readDirectory(dir, previous?.[relativePath]));
+    } catch (error) {
+      onSkip?.({
+        path: dir,
+        reason: 'unreadable',
+        detail: (error as { code?: string }).code ?? String(error),
+      });
+      return;
+    }
+
+    if (indexed.repo) {
+      // Not kept in the directory index, so it is read again on every scan
+      const worktreeOf = await limit(() => readWorktreeOf(dir)).catch(() => undefined);
+      let metadata = indexed.metadata;
+      if (!metadata || Date.now() - metadata.indexedAt > METADATA_MAX_AGE_MS) {
+        metadata = await limit(() => readRepoMetadata(dir, worktreeOf));
+        indexed = { ...indexed, metadata };
+      }
+
+      dirs[relativePath] = indexed;
+      repos.push({
+        name: basename(dir),
+        path: dir,
+        topLevelFolder,
+        root: workingDirectory,
+        ...(worktreeOf ? { worktreeOf } : {}),
+        metadata,
+      });
+      return;
+    }
+
+    dirs[relativePath] = indexed;
+
+    const children = [
+      ...(indexed.subdirs ?? []).map((name) => ({ name, isLink: false })),
+      ...(indexed.links ?? []).map((name) => ({ name, isLink: true })),
+    ];
+
+    await Promise.all(
+      children.map(({ name, isLink }) => {
+        const childPath = join(dir, name);
+        const childRelativePath = relativePath ? `${relativePath}/${name}` : name;
+
+        if (isLink && !discovery.followSymlinks) {
+          onSkip?.({ path: childPath, reason: 'symlink' });
+          return undefined;
+        }
+
+        const ignoredBy = isIgnored(childRelativePath);
+        if (ignoredBy) {
+          onSkip?.({ path: childPath, reason: 'ignored', detail: ignoredBy });
+          return undefined;
+        }
+
+        if (depth + 1 > maxDepth) {
+          onSkip?.({ path: childPath, reason: 'max-depth' });
+          return undefined;
+        }
+
+        // Each folder directly in the working directory starts its own top-level group
+        return visit(childPath, childRelativePath, depth + 1, depth === 0 ? name : topLevelFolder);
+      })
+    );
+  };
+
+  await visit(workingDirectory, '', 0, '/');
+  repos.push(
+    ...(await findExternalWorktrees(workingDirectory, repos, limit)),
+    ...(await findSubmodules(workingDirectory, repos, limit))
+  );
+
+  repos.sort((a, b) => a.path.localeCompare(b.path));
+  return { repos, dirs };
+}
@@ -0,0 +1,47 @@
+import { $ } from 'zx';
+
+export interface Worktree {
+  path: string;
+  head?: string;
+  branch?: string; // short name; unset when detached
+  main: boolean; // the checkout the others were added from
+  bare: boolean;
+  locked: boolean;
+  prunable: boolean; // its folder is gone; `git worktree prune` removes it
+}
+
+/**
+ * Parse `git worktree list --porcelain`: one block of `<attribute> [value]` lines per
+ * worktree, separated by blank lines, main checkout first
+ */
+const parseWorktreeList = (output: string): Worktree[] =>
+  output
+    .split(/\n\s*\n/)
+    .map((block) => block.split('\n').filter(Boolean))
+    .filter((lines) => lines.length > 0 && lines[0].startsWith('worktree '))
+    .map((lines, index) => {
+      const attributes = new Map(
+        lines.map((line) => {
+          const space = line.indexOf(' ');
+          return space === -1 ? [line, ''] : [line.slice(0, space), line.slice(space + 1)];
+        })
+      );
+      return {
+        path: attributes.get('worktree')!,
+        head: attributes.get('HEAD'),
+        branch: attributes.get('branch')?.replace(/^refs\/heads\//, ''),
+        main: index === 0,
+        bare: attributes.has('bare'),
+        locked: attributes.has('locked'),
+        prunable: attributes.has('prunable'),
+      };
+    });
+
+/**
+ * Every worktree of the repository at `path`, wherever it lives; empty when `path` is
+ * not a git repository
+ */
+export async function listWorktrees(path: string): Promise<Worktree[]> {
+  const output = await $`git -C ${path} worktree list --porcelain`.quiet().nothrow();
+  return output.exitCode === 0 ? parseWorktreeList(output.stdout) : [];
+}
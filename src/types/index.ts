@@ -2,22 +2,130 @@ export type RepoDirLevel = 'root' | 'client' | 'server';
 
 // Cloud configuration types
 export interface CloudConfig {
-  ip: string;
+  ip: string; // IP address or hostname
   privateKeyFile: string;
+  user?: string; // defaults to root
+  port?: number; // defaults to 22
+  jumpHost?: string | JumpHostConfig; // a "user@host:port" string is passed to ssh -J
+  sshOptions?: {
+    [option: string]: string | number; // extra `-o Key=Value` options
+  };
+}
+
+// Bastion reached before the target host; use the object form when it needs its own key
+export interface JumpHostConfig {
+  host: string;
+  user?: string;
+  port?: number;
+  privateKeyFile?: string;
+}
+
+// Named port-forward preset, e.g. "db": { local: 5433, remote: 5432 }
+export interface TunnelPreset {
+  env?: Environment; // default environment when --env is omitted
+  local: number;
+  remote: number;
+  remoteHost?: string; // defaults to localhost on the target host
+}
+
+export interface TunnelPresets {
+  [presetName: string]: TunnelPreset;
+}
+
+// Where a service writes its logs; set exactly one of the fields
+export interface LogSource {
+  file?: string; // tailed with `tail`
+  unit?: string; // systemd unit, read with `journalctl -u`
+  container?: string; // read with `docker logs`
 }
 
+export interface LogSources {
+  [sourceName: string]: LogSource;
+}
+
+/**
+ * Environments are an open map (dev, staging, prod, preprod, eu-prod, ...).
+ * Reserved keys (`tunnels`, `logs`) hold per-service settings instead of hosts.
+ */
 export interface ServiceConfig {
-  dev: CloudConfig;
-  staging: CloudConfig;
-  prod: CloudConfig;
+  tunnels?: TunnelPresets;
+  logs?: LogSources;
+  [environment: string]: CloudConfig | TunnelPresets | LogSources | undefined;
 }
 
 export interface YirenConfig {
   [serviceName: string]: ServiceConfig;
 }
 
+// A discovery root; the label prefixes its picker separators (defaults to the folder name)
+export interface WorkingDirectoryConfig {
+  path: string;
+  label?: string;
+}
+
+// A root as used by discovery: `~` expanded and the label filled in
+export interface WorkingDirectory {
+  path: string;
+  label: string;
+}
+
+// How working directories are scanned for git repositories
+export interface DiscoveryConfig {
+  ignore?: string[]; // gitignore-style globs, added to the defaults (`!pattern` re-includes)
+  maxDepth?: number; // how many folders below a working directory to look (default: no limit)
+  followSymlinks?: boolean; // default false; loops are detected when enabled
+  cacheTtlMinutes?: number; // older caches are shown, then rescanned in the background (default 10)
+  mergeRepos?: boolean; // also show the manual `repos` categories next to discovered repos
+}
+
+export type PickerSort = 'name' | 'recent';
+
+export interface PickerConfig {
+  gitStatus?: boolean; // show branch, dirty/ahead/behind and last commit time (default false)
+  sort?: PickerSort; // 'recent': most recently committed first, without folder separators
+}
+
+// Searchable details of a repository, extracted by discovery (see discovery/metadata.ts)
+export interface RepoMetadata {
+  indexedAt: number;
+  packageName?: string; // package.json name, description and keywords
+  description?: string;
+  keywords?: string[];
+  remote?: string; // `org/repo` of the origin remote, or of the first one
+  languages?: string[]; // most common first, by file extension
+  readmeTitle?: string;
+}
+
+// What the previous scan saw in one directory; it is only read again once its mtime changes
+export interface IndexedDirectory {
+  mtimeMs: number;
+  repo?: boolean; // contains .git, so it is not descended into
+  metadata?: RepoMetadata; // repositories only; also re-read once it is a day old
+  subdirs?: string[];
+  links?: string[]; // symlinks to directories
+}
+
+// Keyed by `/`-separated path relative to the working directory ('' is the directory itself)
+export interface DirectoryIndex {
+  [relativePath: string]: IndexedDirectory;
+}
+
+export type SkipReason = 'ignored' | 'max-depth' | 'symlink' | 'already-scanned' | 'unreadable';
+
+// A directory discovery did not look into, reported by `ai cursor refresh --verbose`
+export interface SkippedDirectory {
+  path: string;
+  reason: SkipReason;
+  detail?: string; // the matching ignore rule, the error code, ...
+}
+
 export interface HshConfig {
+  version?: number; // Config schema version, upgraded automatically on read
+  include?: string[]; // Read-only team files merged underneath this one
   workingDirectory?: string; // Optional working directory for auto-discovery
+  workingDirectories?: Array<string | WorkingDirectoryConfig>; // more roots, scanned after it
+  discovery?: DiscoveryConfig;
+  picker?: PickerConfig;
   repos: {
     [groupName: string]: {
       [repoName: string]: string;
@@ -32,13 +140,29 @@ export interface HshConfig {
   };
 }
 
-export type Environment = 'dev' | 'staging' | 'prod';
+// One file contributing to the effective config
+export interface ConfigLayer {
+  path: string;
+  config: HshConfig;
+  readonly: boolean; // included files are never written
+}
+
+// One line of ~/.ai/backups/history.jsonl: the config as it was before `command` changed it
+export interface ConfigBackupEntry {
+  file: string; // backup file name inside ~/.ai/backups
+  createdAt: number;
+  command: string;
+}
+
+// Well-known names are listed for editor hints; any configured environment name is valid
+export type Environment = 'dev' | 'staging' | 'prod' | (string & {});
 
 // SCP command types
 export interface ScpOptions {
   env?: Environment;
   service?: string;
   recursive?: boolean;
+  yesProd?: boolean;
 }
 
 export interface PathValidationResult {
@@ -47,3 +171,213 @@ export interface PathValidationResult {
   isFile: boolean;
   path: string;
 }
+
+export type ScpDirection = 'upload' | 'download';
+
+export interface ScpExecutionContext {
+  service: string;
+  environment: Environment;
+  cloudConfig: CloudConfig;
+  direction: ScpDirection;
+  localPath: string;
+  remotePath: string;
+  isRecursive: boolean;
+}
+
+// Cloud login types
+export interface CloudLoginOptions {
+  env?: Environment;
+  service?: string;
+  yesProd?: boolean; // skip the typed production confirmation
+}
+
+export enum CloudLoginError {
+  CONFIG_NOT_FOUND = 'CONFIG_NOT_FOUND',
+  INVALID_CONFIG = 'INVALID_CONFIG',
+  SERVICE_NOT_FOUND = 'SERVICE_NOT_FOUND',
+  ENVIRONMENT_NOT_FOUND = 'ENVIRONMENT_NOT_FOUND',
+  PRIVATE_KEY_NOT_FOUND = 'PRIVATE_KEY_NOT_FOUND',
+  PRIVATE_KEY_PERMISSIONS = 'PRIVATE_KEY_PERMISSIONS',
+  SSH_CONNECTION_FAILED = 'SSH_CONNECTION_FAILED',
+  NETWORK_UNREACHABLE = 'NETWORK_UNREACHABLE',
+  AUTHENTICATION_FAILED = 'AUTHENTICATION_FAILED',
+  PRODUCTION_NOT_CONFIRMED = 'PRODUCTION_NOT_CONFIRMED',
+}
+
+export interface CloudLoginErrorInfo {
+  type: CloudLoginError;
+  message: string;
+  suggestion?: string;
+  command?: string;
+}
+
+// Selection flags shared by cloud commands that fan out over several hosts
+export interface CloudTargetSelection {
+  env?: string; // comma-separated list
+  service?: string; // comma-separated list
+  all?: boolean;
+  yesProd?: boolean;
+}
+
+export interface CloudExecOptions extends CloudTargetSelection {
+  concurrency?: string;
+}
+
+export interface CloudExecResult {
+  service: string;
+  environment: Environment;
+  host: string;
+  exitCode: number | null;
+  durationMs: number;
+  error?: string;
+}
+
+export interface CloudTunnelOptions {
+  env?: Environment;
+  service?: string;
+  local?: string;
+  remote?: string;
+  remoteHost?: string;
+  background?: boolean;
+  yesProd?: boolean;
+}
+
+// Entry of the background tunnel registry (~/.ai/tunnels.json)
+export interface TunnelRecord {
+  id: string;
+  pid: number;
+  service: string;
+  environment: Environment;
+  host: string;
+  localPort: number;
+  remoteHost: string;
+  remotePort: number;
+  preset?: string;
+  logFile: string;
+  startedAt: number;
+}
+
+export interface CloudLogsOptions extends CloudTargetSelection {
+  follow?: boolean;
+  since?: string;
+  grep?: string;
+  lines?: string;
+}
+
+export type CloudHostStatus =
+  | 'reachable'
+  | 'timeout'
+  | 'refused'
+  | 'unreachable'
+  | 'auth-failed'
+  | 'key-missing'
+  | 'key-perms'
+  | 'error'; // the probe itself failed, e.g. an invalid jump host key
+
+export interface CloudStatusOptions {
+  env?: string;
+  service?: string;
+  timeout?: string;
+  ssh?: boolean;
+  json?: boolean;
+}
+
+export interface CloudStatusResult {
+  service: string;
+  environment: Environment;
+  host: string;
+  port: number;
+  via?: string; // jump host that was probed instead of the host itself
+  status: CloudHostStatus;
+  latencyMs?: number;
+  error?: string;
+  fix?: string; // command that resolves the status, e.g. `chmod 600 <key>`
+}
+
+export interface CloudSshConfigOptions {
+  env?: string;
+  service?: string;
+  write?: string | boolean; // managed section inside an ssh config file (default ~/.ssh/config)
+  include?: string | boolean; // dedicated file pulled in via an Include line
+}
+
+export interface CloudImportOptions {
+  format?: 'ssh' | 'terraform';
+  pattern?: string; // regex with (?<service>) and (?<env>) groups, applied to host names
+  key?: string; // privateKeyFile for hosts that do not specify one
+  yes?: boolean;
+  dryRun?: boolean;
+}
+
+// Host found in an import source, before it is mapped to a service/env
+export interface ImportedHost {
+  name: string;
+  cloudConfig: Omit<CloudConfig, 'privateKeyFile'> & { privateKeyFile?: string };
+}
+
+export interface CloudSyncOptions {
+  env?: Environment;
+  service?: string;
+  watch?: boolean;
+  delete?: boolean; // remove previously synced remote files that no longer exist locally
+  exclude?: string; // comma-separated file/directory names
+  force?: boolean; // ignore the manifest and upload everything
+  dryRun?: boolean;
+  debounce?: string; // milliseconds
+  yes?: boolean; // delete remote files without asking
+  yesProd?: boolean;
+}
+
+export interface SyncManifestEntry {
+  size: number;
+  mtimeMs: number;
+  hash: string; // sha1 of the content
+}
+
+// Last synced state of one local directory → host directory pair (~/.ai/sync/*.json)
+export interface SyncManifest {
+  localDir: string;
+  remoteDir: string;
+  service: string;
+  environment: Environment;
+  host: string;
+  syncedAt: number;
+  files: { [relativePath: string]: SyncManifestEntry };
+}
+
+export type AuditAction = 'login' | 'scp' | 'sync' | 'exec' | 'tunnel' | 'logs';
+
+// One line of the cloud audit log (~/.ai/audit.jsonl)
+export interface AuditEntry {
+  timestamp: string; // ISO 8601
+  user: string;
+  action: AuditAction;
+  service: string;
+  env: Environment;
+  host: string;
+  command: string;
+}
+
+export interface CloudAuditOptions {
+  service?: string;
+  env?: string;
+  action?: string;
+  since?: string;
+  until?: string;
+  limit?: string;
+  json?: boolean;
+}
+
+export type DoctorCheckStatus = 'pass' | 'warn' | 'fail';
+
+export interface DoctorCheckResult {
+  id: string; // stable identifier for --json consumers, e.g. "config", "private-keys"
+  title: string;
+  status: DoctorCheckStatus;
+  details: string[];
+  fix?: string;
+}
+
+export interface DoctorOptions {
+  json?: boolean;
+}
@@ -1,10 +1,20 @@
-import { readFileSync, existsSync, readdirSync, mkdirSync, writeFileSync } from 'fs';
-import { join, basename } from 'path';
-import { dirname } from 'path';
+import { readFileSync, existsSync, mkdirSync, copyFileSync } from 'fs';
+import { join, basename, dirname, resolve } from 'path';
 import { fileURLToPath } from 'url';
-import { homedir } from 'os';
+import { homedir, platform } from 'os';
+import { which } from 'zx';
 import chalk from 'chalk';
-import { HshConfig } from './types/index.js';
+import type {
+  ConfigLayer,
+  DirectoryIndex,
+  HshConfig,
+  RepoMetadata,
+  WorkingDirectory,
+} from './types/index.js';
+import { CONFIG_VERSION, migrateConfig } from './config/migrations.js';
+import { ConfigValidationError, normalizeConfig, validateConfig } from './config/schema.js';
+import { backupFile, withFileLock, writeFileAtomic } from './config/store.js';
+import { mergeConfigLayers, resolveOrigins } from './config/layers.js';
 
 export const getPackageJson = () => {
   const __filename = fileURLToPath(import.meta.url);
@@ -13,13 +23,79 @@ export const getPackageJson = () => {
   return packageJson;
 };
 
+let configPathOverride: string | undefined;
+
+/**
+ * Set by the global `--config <path>` flag; takes precedence over AI_CONFIG
+ */
+export const setConfigPathOverride = (path: string | undefined): void => {
+  configPathOverride = path;
+};
+
+// Expand a leading ~ so paths like "~/.ssh/id_rsa" work
+export const expandHome = (path: string): string => path.replace(/^~(?=$|[\\/])/, homedir());
+
+// A duration as minutes, hours or days, e.g. `5m`, `3h`, `12d`
+export const formatAge = (ms: number): string => {
+  const minutes = Math.round(ms / 60_000);
+  if (minutes < 60) return `${minutes}m`;
+  const hours = Math.round(minutes / 60);
+  return hours < 48 ? `${hours}h` : `${Math.round(hours / 24)}d`;
+};
+
+const getXdgConfigPath = (): string =>
+  join(process.env.XDG_CONFIG_HOME || join(homedir(), '.config'), 'ai', 'config.json');
+
+/**
+ * The personal config file: --config, then $AI_CONFIG, then an existing
+ * $XDG_CONFIG_HOME/ai/config.json, then ~/.ai/config.json (new files go to the XDG
+ * location only when XDG_CONFIG_HOME is set)
+ */
 export const getConfigPath = (): string => {
-  const dir = join(homedir(), '.ai');
-  mkdirSync(dir, { recursive: true });
-  return join(dir, 'config.json');
+  const explicit = configPathOverride || process.env.AI_CONFIG;
+  const legacyPath = join(homedir(), '.ai', 'config.json');
+  const xdgPath = getXdgConfigPath();
+
+  let configPath: string;
+  if (explicit) {
+    configPath = resolve(expandHome(explicit));
+  } else if (existsSync(xdgPath) || (!existsSync(legacyPath) && process.env.XDG_CONFIG_HOME)) {
+    configPath = xdgPath;
+  } else {
+    configPath = legacyPath;
+  }
+
+  mkdirSync(dirname(configPath), { recursive: true });
+  return configPath;
 };
 
-export const readConfig = (): HshConfig => {
+const exitWithConfigIssues = (heading: string, issues: string[]): never => {
+  console.error(chalk.red(`❌ ${heading}`));
+  issues.forEach((issue) => console.error(chalk.red(`   - ${issue}`)));
+  process.exit(1);
+};
+
+/**
+ * Parse one config file and bring it to CONFIG_VERSION in memory
+ */
+const loadConfigFile = (configPath: string) => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(readFileSync(configPath, 'utf-8'));
+  } catch (error) {
+    console.error(chalk.red(`❌ ${configPath} is not valid JSON: ${(error as Error).message}`));
+    process.exit(1);
+  }
+
+  try {
+    const { config, fromVersion, applied } = migrateConfig(raw);
+    return { config: config as HshConfig, fromVersion, applied };
+  } catch (error) {
+    return exitWithConfigIssues(`Cannot upgrade ${configPath}:`, [(error as Error).message]);
+  }
+};
+
+const readPersonalLayer = () => {
   const configPath = getConfigPath();
 
   if (!existsSync(configPath)) {
@@ -32,41 +108,190 @@ export const readConfig = (): HshConfig => {
     process.exit(1);
   }
 
-  const configContent = readFileSync(configPath, 'utf-8');
-  const config = JSON.parse(configContent);
-
-  // If workingDirectory is configured but repos/yiren are not, initialize them
-  if (config.workingDirectory && !config.repos) {
-    return {
-      workingDirectory: config.workingDirectory,
-      repos: {},
-      yiren: config.yiren || {},
-      urls: config.urls,
-      urlGroups: config.urlGroups,
-    };
+  return { path: configPath, ...loadConfigFile(configPath) };
+};
+
+/**
+ * Every file that makes up the effective config, lowest priority first: the files listed
+ * in the personal config's `include` (relative to it), then the personal file itself
+ */
+const collectLayers = (
+  personal: ReturnType<typeof readPersonalLayer>,
+  warn = true
+): ConfigLayer[] => {
+  const layers: ConfigLayer[] = [];
+
+  for (const file of Array.isArray(personal.config.include) ? personal.config.include : []) {
+    const includePath = resolve(dirname(personal.path), expandHome(String(file)));
+    if (!existsSync(includePath)) {
+      if (warn) {
+        console.log(chalk.yellow(`⚠️  Included config not found, skipping: ${includePath}`));
+      }
+      continue;
+    }
+    layers.push({ path: includePath, config: loadConfigFile(includePath).config, readonly: true });
+  }
+
+  layers.push({ path: personal.path, config: personal.config, readonly: false });
+  return layers;
+};
+
+export const readConfigLayers = (): ConfigLayer[] => collectLayers(readPersonalLayer());
+
+/**
+ * The effective config: included team files merged underneath the personal file,
+ * validated as a whole. Problems are reported with the file each value came from.
+ */
+export const readConfig = (): HshConfig => {
+  const personal = readPersonalLayer();
+  const layers = collectLayers(personal);
+  const merged = mergeConfigLayers(layers);
+
+  try {
+    validateConfig(merged);
+  } catch (error) {
+    if (!(error instanceof ConfigValidationError)) throw error;
+    if (layers.length === 1) {
+      exitWithConfigIssues(`Invalid configuration in ${layers[0].path}:`, error.issues);
+    }
+    const origins = resolveOrigins(layers);
+    exitWithConfigIssues(
+      'Invalid configuration:',
+      error.issues.map((issue) => {
+        const origin = origins.get(issue.slice(0, issue.indexOf(':')));
+        return origin ? `${issue} (from ${origin})` : issue;
+      })
+    );
+  }
+
+  // Upgrade the personal file in place once it is known to be valid
+  if (personal.applied.length > 0) {
+    // Keep the original next to the config before upgrading it in place
+    const backupPath = `${personal.path}.v${personal.fromVersion}.bak`;
+    copyFileSync(personal.path, backupPath);
+    saveConfig(personal.config);
+    console.log(chalk.blue(`ℹ️  Upgraded ${personal.path} (backup: ${backupPath})`));
+    personal.applied.forEach((step) => console.log(chalk.gray(`   ${step}`)));
   }
 
-  return config as HshConfig;
+  return normalizeConfig(merged);
 };
 
+export const describeCommand = (): string => ['ai', ...process.argv.slice(2)].join(' ');
+
 /**
- * Recursively scan directory for Git repositories
- * Returns list of { name, path, topLevelFolder } objects
+ * Every config write goes through here: under the config lock, back up the current
+ * file (see `ai config history`) and atomically replace it
  */
+export const saveConfig = (config: HshConfig): void => {
+  const configPath = getConfigPath();
+  const payload: HshConfig = { version: CONFIG_VERSION, ...config };
+  withFileLock(configPath, () => {
+    backupFile(configPath, describeCommand());
+    writeFileAtomic(configPath, JSON.stringify(payload, null, 2));
+  });
+};
+
+/**
+ * Read-modify-write of the personal file under the config lock, so concurrent commands
+ * cannot drop each other's changes. Included files are never written. Throws
+ * ConfigValidationError, without writing, when the result would not pass `readConfig`.
+ */
+export const updateConfig = (mutate: (config: HshConfig) => HshConfig | void): HshConfig =>
+  withFileLock(getConfigPath(), () => {
+    readConfig(); // validates the effective config and persists pending migrations
+    const personal = readPersonalLayer();
+    const config = normalizeConfig(personal.config);
+    const updated = mutate(config) ?? config;
+    // readConfig above already warned about missing includes
+    validateConfig(mergeConfigLayers(collectLayers({ ...personal, config: updated }, false)));
+    saveConfig(updated);
+    return updated;
+  });
+
+// A repository found by discovery (see discovery/scanner.ts)
 export interface GitRepository {
   name: string;
   path: string;
-  topLevelFolder: string; // Top-level folder name relative to workingDirectory
+  topLevelFolder: string; // Top-level folder name relative to its working directory
+  root: string; // The working directory it was found under
+  worktreeOf?: string; // Main checkout, when this is a linked worktree (`.git` is a file)
+  submoduleOf?: string; // Superproject, when this is one of its initialized submodules
+  metadata?: RepoMetadata;
+}
+
+// Branch and working tree state of a checkout, shown in the picker (see discovery/git-status.ts)
+export interface GitStatus {
+  updatedAt: number;
+  branch?: string; // unset when detached or not a git repository
+  detached?: boolean;
+  dirty?: boolean; // staged, unstaged or untracked changes
+  ahead?: number; // commits not on the upstream branch
+  behind?: number;
+  lastCommitAt?: number;
+}
+
+interface GitStatusCacheFile {
+  version: 1;
+  repos: {
+    [path: string]: GitStatus;
+  };
 }
 
 interface IdeReposCacheFileV1 {
   version: 1;
   workingDirectory: string;
+  updatedAt: number;
+  repos: Omit<GitRepository, 'root'>[];
+}
+
+export interface IdeReposCacheEntry {
   updatedAt: number;
   repos: GitRepository[];
+  dirs?: DirectoryIndex; // lets the next scan skip reading unchanged directories
+}
+
+// Keyed by working directory, so each root can be refreshed on its own
+export interface IdeReposCacheFileV2 {
+  version: 2;
+  roots: {
+    [workingDirectory: string]: IdeReposCacheEntry;
+  };
 }
 
-const ensureAiDir = (): string => {
+// A `workingDirectory(ies)` entry as written, or undefined for any other shape
+const toRootEntry = (entry: unknown): { path: string; label?: string } | undefined => {
+  if (typeof entry === 'string') return entry ? { path: entry } : undefined;
+  if (!entry || typeof entry !== 'object') return undefined;
+  const { path, label } = entry as { path?: unknown; label?: unknown };
+  if (typeof path !== 'string' || !path) return undefined;
+  return { path, ...(typeof label === 'string' ? { label } : {}) };
+};
+
+/**
+ * Discovery roots: `workingDirectory` first, then `workingDirectories`, without duplicates.
+ * Malformed entries are skipped rather than trusted, since some callers read the config
+ * before it is validated; `validateConfig` reports them.
+ */
+export const getWorkingDirectories = (config: HshConfig): WorkingDirectory[] => {
+  const entries: unknown[] = [
+    config.workingDirectory,
+    ...(Array.isArray(config.workingDirectories) ? config.workingDirectories : []),
+  ];
+
+  const roots: WorkingDirectory[] = [];
+  for (const entry of entries) {
+    const rootEntry = toRootEntry(entry);
+    if (!rootEntry) continue;
+    const { path, label } = rootEntry;
+    const rootPath = resolve(expandHome(path));
+    if (roots.some((root) => root.path === rootPath)) continue;
+    roots.push({ path: rootPath, label: label ?? basename(rootPath) });
+  }
+  return roots;
+};
+
+export const ensureAiDir = (): string => {
   const dir = join(homedir(), '.ai');
   mkdirSync(dir, { recursive: true });
   return dir;
@@ -77,70 +302,111 @@ const getIdeReposCachePath = (): string => {
   return join(dir, 'ide-repos-cache.json');
 };
 
-export const readIdeReposCache = (workingDirectory: string): GitRepository[] | null => {
+/**
+ * The whole cache file; a single-root (v1) cache is read as one entry of the v2 shape
+ */
+export const readIdeReposCacheFile = (): IdeReposCacheFileV2 => {
+  const empty: IdeReposCacheFileV2 = { version: 2, roots: {} };
   const cachePath = getIdeReposCachePath();
-  if (!existsSync(cachePath)) return null;
+  if (!existsSync(cachePath)) return empty;
 
   try {
     const raw = readFileSync(cachePath, 'utf-8');
-    const parsed = JSON.parse(raw) as Partial<IdeReposCacheFileV1>;
-
-    if (parsed.version !== 1) return null;
-    if (parsed.workingDirectory !== workingDirectory) return null;
-    if (!Array.isArray(parsed.repos)) return null;
+    const parsed = JSON.parse(raw) as Partial<IdeReposCacheFileV1> | Partial<IdeReposCacheFileV2>;
 
-    return parsed.repos as GitRepository[];
+    if (parsed.version === 2 && parsed.roots && typeof parsed.roots === 'object') {
+      return parsed as IdeReposCacheFileV2;
+    }
+    if (parsed.version === 1 && parsed.workingDirectory && Array.isArray(parsed.repos)) {
+      const { workingDirectory, updatedAt = 0, repos } = parsed;
+      const withRoot = repos.map((repo) => ({ ...repo, root: workingDirectory }));
+      return { version: 2, roots: { [workingDirectory]: { updatedAt, repos: withRoot } } };
+    }
+    return empty;
   } catch {
-    return null;
+    return empty;
   }
 };
 
-export const writeIdeReposCache = (workingDirectory: string, repos: GitRepository[]): void => {
+export const readIdeReposCache = (workingDirectory: string): IdeReposCacheEntry | null => {
+  const entry = readIdeReposCacheFile().roots[workingDirectory];
+  return entry && Array.isArray(entry.repos) ? entry : null;
+};
+
+export const writeIdeReposCache = (
+  workingDirectory: string,
+  repos: GitRepository[],
+  dirs?: DirectoryIndex
+): void => {
   const cachePath = getIdeReposCachePath();
-  const payload: IdeReposCacheFileV1 = {
-    version: 1,
-    workingDirectory,
-    updatedAt: Date.now(),
-    repos,
-  };
-  writeFileSync(cachePath, JSON.stringify(payload, null, 2), 'utf-8');
-};
-
-export const findGitRepositories = (workingDirectory: string): GitRepository[] => {
-  const repositories: GitRepository[] = [];
-
-  const scanDirectory = (dir: string, topLevelFolder: string = '/'): void => {
-    try {
-      // Check if current directory contains .git folder
-      if (existsSync(join(dir, '.git'))) {
-        repositories.push({
-          name: basename(dir),
-          path: dir,
-          topLevelFolder,
-        });
-        return; // Stop recursing into this directory
-      }
+  const payload = readIdeReposCacheFile();
+  payload.roots[workingDirectory] = { updatedAt: Date.now(), repos, dirs };
+  // Written atomically: a background refresh may race with another ai command
+  writeFileAtomic(cachePath, JSON.stringify(payload, null, 2));
+};
+
+const getGitStatusCachePath = (): string => join(ensureAiDir(), 'ide-git-status-cache.json');
+
+export const readGitStatusCache = (): Record<string, GitStatus> => {
+  const cachePath = getGitStatusCachePath();
+  if (!existsSync(cachePath)) return {};
+
+  try {
+    const parsed = JSON.parse(readFileSync(cachePath, 'utf-8')) as Partial<GitStatusCacheFile>;
+    return parsed.version === 1 && parsed.repos && typeof parsed.repos === 'object'
+      ? parsed.repos
+      : {};
+  } catch {
+    return {};
+  }
+};
 
-      // Continue scanning subdirectories
-      const entries = readdirSync(dir, { withFileTypes: true });
+/**
+ * Merge statuses into the cache file, dropping checkouts that no longer exist
+ */
+export const writeGitStatusCache = (statuses: Record<string, GitStatus>): void => {
+  const repos = { ...readGitStatusCache(), ...statuses };
+  for (const path of Object.keys(repos)) {
+    if (!existsSync(path)) delete repos[path];
+  }
+  const payload: GitStatusCacheFile = { version: 1, repos };
+  writeFileAtomic(getGitStatusCachePath(), JSON.stringify(payload, null, 2));
+};
 
-      for (const entry of entries) {
-        if (entry.isDirectory()) {
-          const fullPath = join(dir, entry.name);
+// macOS app bundles live in /Applications or ~/Applications
+export const findMacApp = (name: string): string | undefined =>
+  ['/Applications', join(homedir(), 'Applications')]
+    .map((dir) => join(dir, `${name}.app`))
+    .find((path) => existsSync(path));
 
-          // Determine top-level folder for this entry
-          const isTopLevel = dir === workingDirectory;
-          const currentTopLevel = isTopLevel ? entry.name : topLevelFolder;
+/**
+ * Where a launcher is installed: its command on PATH or, on macOS, the app bundle
+ * that `open -a` starts without the shell command
+ */
+export const findLauncher = async (binary: string, macApp?: string): Promise<string | undefined> =>
+  (await which(binary, { nothrow: true })) ??
+  (macApp && platform() === 'darwin' ? findMacApp(macApp) : undefined);
 
-          scanDirectory(fullPath, currentTopLevel);
-        }
-      }
-    } catch {
-      // Silently skip directories with permission errors
-      // This will be enhanced in future iterations
+/**
+ * Map items through an async function with at most `limit` calls in flight.
+ * Results keep the input order.
+ */
+export const mapWithConcurrency = async <T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> => {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+
+  const worker = async (): Promise<void> => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index], index);
     }
   };
 
-  scanDirectory(workingDirectory);
-  return repositories;
+  const workers = Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, worker);
+  await Promise.all(workers);
+  return results;
 };
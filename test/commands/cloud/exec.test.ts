@@ -0,0 +1,20 @@
+import { describe, expect, it } from 'vitest';
+import { buildRemoteCommand } from '../../../src/commands/cloud/exec.js';
+
+describe('buildRemoteCommand', () => {
+  it('keeps an argument with spaces as one word', () => {
+    expect(buildRemoteCommand(['grep', 'two words', '/var/log/x'])).toBe(
+      "grep 'two words' /var/log/x"
+    );
+  });
+
+  it('quotes shell metacharacters and single quotes in separate arguments', () => {
+    expect(buildRemoteCommand(['echo', "it's", '$HOME', 'a|b'])).toBe(
+      `echo 'it'\\''s' '$HOME' 'a|b'`
+    );
+  });
+
+  it('passes a single argument through as a shell snippet', () => {
+    expect(buildRemoteCommand([' ps aux | grep node '])).toBe('ps aux | grep node');
+  });
+});
@@ -0,0 +1,52 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { parseSshConfig } from '../../../src/commands/cloud/import.js';
+
+beforeEach(() => {
+  vi.spyOn(console, 'log').mockImplementation(() => undefined);
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('parseSshConfig', () => {
+  it('reads one host per alias and skips wildcard patterns', () => {
+    const hosts = parseSshConfig(
+      [
+        'Host todo-mini-prod todo-prod',
+        '  HostName 10.0.0.1',
+        '  User deploy',
+        '  Port 2222',
+        '  IdentityFile ~/.ssh/todo',
+        'Host *',
+        '  User root',
+      ].join('\n')
+    );
+
+    expect(hosts.map((host) => host.name)).toEqual(['todo-mini-prod', 'todo-prod']);
+    expect(hosts[0].cloudConfig).toEqual({
+      ip: '10.0.0.1',
+      user: 'deploy',
+      port: 2222,
+      privateKeyFile: '~/.ssh/todo',
+    });
+  });
+
+  it('skips hosts whose Port is not a valid port', () => {
+    const hosts = parseSshConfig(
+      [
+        'Host a',
+        '  Port 70000',
+        'Host b',
+        '  Port 0',
+        'Host c',
+        '  Port 22a',
+        'Host d',
+        '  Port 22',
+      ].join('\n')
+    );
+
+    expect(hosts).toEqual([{ name: 'd', cloudConfig: { ip: 'd', port: 22 } }]);
+    expect(console.log).toHaveBeenCalledTimes(3);
+  });
+});
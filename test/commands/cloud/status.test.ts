@@ -0,0 +1,48 @@
+import { createServer, type Server } from 'net';
+import { afterEach, describe, expect, it } from 'vitest';
+import { probeTcp } from '../../../src/commands/cloud/status.js';
+
+const listen = (): Promise<Server> =>
+  new Promise((resolve) => {
+    const server = createServer((socket) => socket.destroy());
+    server.listen(0, '127.0.0.1', () => resolve(server));
+  });
+
+const portOf = (server: Server): number => {
+  const address = server.address();
+  if (!address || typeof address === 'string') throw new Error('Server is not listening');
+  return address.port;
+};
+
+describe('probeTcp', () => {
+  let server: Server | undefined;
+
+  afterEach(async () => {
+    await new Promise((resolve) => (server?.listening ? server.close(resolve) : resolve(null)));
+    server = undefined;
+  });
+
+  it('reports a listening port as reachable with its latency', async () => {
+    server = await listen();
+
+    const result = await probeTcp('127.0.0.1', portOf(server), 2000);
+
+    expect(result.status).toBe('reachable');
+    expect(result.latencyMs).toBeGreaterThanOrEqual(0);
+  });
+
+  it('reports a closed port as refused', async () => {
+    server = await listen();
+    const port = portOf(server);
+    await new Promise((resolve) => server!.close(resolve));
+
+    expect(await probeTcp('127.0.0.1', port, 2000)).toEqual({ status: 'refused' });
+  });
+
+  it('reports a host that does not resolve as unreachable', async () => {
+    const result = await probeTcp('host.invalid', 22, 2000);
+
+    expect(result.status).toBe('unreachable');
+    expect(result.error).toBeDefined();
+  });
+});
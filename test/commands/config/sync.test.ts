@@ -0,0 +1,193 @@
+import { mkdirSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { $ } from 'zx';
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  configSyncInit,
+  configSyncPull,
+  configSyncPush,
+} from '../../../src/commands/config/sync.js';
+import type { HshConfig } from '../../../src/types/index.js';
+
+// The machine whose hostname sync.ts sees; hosts.json keeps machine fields per hostname
+const current = vi.hoisted(() => ({ host: '' }));
+vi.mock('os', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('os')>()),
+  hostname: () => current.host,
+}));
+
+// Two machines share one bare repository; each has its own home, hostname, config and checkout
+let root: string;
+let remote: string;
+const homes = { a: '', b: '' };
+const originalEnv = { ...process.env };
+
+const useMachine = (machine: keyof typeof homes): void => {
+  process.env.HOME = homes[machine];
+  current.host = `host-${machine}`;
+};
+
+const readMachineConfig = (machine: keyof typeof homes): HshConfig => {
+  useMachine(machine);
+  return JSON.parse(readFileSync(join(homes[machine], '.ai', 'config.json'), 'utf-8'));
+};
+
+const writeMachineConfig = (machine: keyof typeof homes, config: HshConfig): void => {
+  mkdirSync(join(homes[machine], '.ai'), { recursive: true });
+  writeFileSync(join(homes[machine], '.ai', 'config.json'), JSON.stringify(config, null, 2));
+};
+
+const run = async (machine: keyof typeof homes, command: () => Promise<void>): Promise<void> => {
+  useMachine(machine);
+  await command();
+  expect(process.exitCode).toBeUndefined();
+};
+
+const warnings = (): string[] =>
+  vi
+    .mocked(console.log)
+    .mock.calls.map(([message]) => String(message))
+    .filter((message) => message.includes('changed on both sides'));
+
+beforeAll(() => {
+  delete process.env.AI_CONFIG;
+  delete process.env.XDG_CONFIG_HOME;
+  // Commits must not depend on the runner's git identity or global config
+  Object.assign(process.env, {
+    GIT_CONFIG_GLOBAL: '/dev/null',
+    GIT_AUTHOR_NAME: 'test',
+    GIT_AUTHOR_EMAIL: 'test@example.com',
+    GIT_COMMITTER_NAME: 'test',
+    GIT_COMMITTER_EMAIL: 'test@example.com',
+    GIT_CONFIG_NOSYSTEM: '1',
+  });
+});
+
+afterAll(() => {
+  process.env = originalEnv;
+});
+
+beforeEach(async () => {
+  root = mkdtempSync(join(tmpdir(), 'ai-config-sync-'));
+  remote = join(root, 'remote.git');
+  homes.a = join(root, 'a');
+  homes.b = join(root, 'b');
+  await $`git init --quiet --bare --initial-branch=main ${remote}`.quiet();
+  vi.spyOn(console, 'log').mockImplementation(() => undefined);
+  vi.spyOn(console, 'error').mockImplementation(() => undefined);
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  process.exitCode = undefined;
+  rmSync(root, { recursive: true, force: true });
+});
+
+describe('config sync', () => {
+  it('stores machine fields per hostname and restores them on the machine that pushed them', async () => {
+    writeMachineConfig('a', { workingDirectory: '/work/a' });
+    writeMachineConfig('b', { workingDirectory: '/work/b' });
+    await run('a', () => configSyncInit(remote));
+    await run('b', () => configSyncInit(remote));
+
+    const hosts = (await $`git -C ${remote} show main:hosts.json`.quiet()).stdout;
+    expect(JSON.parse(hosts)).toEqual({
+      'host-a': { workingDirectory: '/work/a' },
+      'host-b': { workingDirectory: '/work/b' },
+    });
+
+    // A machine that lost its value gets its own back, never the other machine's
+    writeMachineConfig('a', { urls: { docs: 'https://docs' } });
+    await run('a', configSyncPull);
+    expect(readMachineConfig('a')).toMatchObject({
+      workingDirectory: '/work/a',
+      urls: { docs: 'https://docs' },
+    });
+    expect(readMachineConfig('b').workingDirectory).toBe('/work/b');
+  });
+
+  it('keeps additions from both machines and each machine its own working directory', async () => {
+    writeMachineConfig('a', { workingDirectory: '/work/a', urls: { docs: 'https://docs.a' } });
+    writeMachineConfig('b', { workingDirectory: '/work/b', urls: { mail: 'https://mail.b' } });
+
+    await run('a', () => configSyncInit(remote));
+    await run('b', () => configSyncInit(remote));
+    await run('a', configSyncPull);
+
+    for (const machine of ['a', 'b'] as const) {
+      expect(readMachineConfig(machine)).toMatchObject({
+        workingDirectory: `/work/${machine}`,
+        urls: { docs: 'https://docs.a', mail: 'https://mail.b' },
+      });
+    }
+
+    const shared = (await $`git -C ${remote} show main:config.json`.quiet()).stdout;
+    expect(JSON.parse(shared).workingDirectory).toBe('{{host.workingDirectory}}');
+  });
+
+  it('merges edits to different keys without conflicts', async () => {
+    const urls = { docs: 'https://docs', mail: 'https://mail' };
+    writeMachineConfig('a', { workingDirectory: '/work/a', urls });
+    writeMachineConfig('b', { workingDirectory: '/work/b', urls });
+    await run('a', () => configSyncInit(remote));
+    await run('b', () => configSyncInit(remote));
+
+    writeMachineConfig('a', {
+      workingDirectory: '/work/a',
+      urls: { ...urls, docs: 'https://docs/v2' },
+    });
+    await run('a', configSyncPush);
+    writeMachineConfig('b', { workingDirectory: '/work/b', urls: { docs: urls.docs } });
+    await run('b', configSyncPush);
+    await run('a', configSyncPull);
+
+    for (const machine of ['a', 'b'] as const) {
+      expect(readMachineConfig(machine).urls).toEqual({ docs: 'https://docs/v2' });
+    }
+    expect(warnings()).toEqual([]);
+  });
+
+  it('keeps the local edit when the other machine deleted the key', async () => {
+    const urls = { docs: 'https://docs', mail: 'https://mail' };
+    writeMachineConfig('a', { workingDirectory: '/work/a', urls });
+    writeMachineConfig('b', { workingDirectory: '/work/b', urls });
+    await run('a', () => configSyncInit(remote));
+    await run('b', () => configSyncInit(remote));
+
+    writeMachineConfig('a', { workingDirectory: '/work/a', urls: { mail: urls.mail } });
+    await run('a', configSyncPush);
+    writeMachineConfig('b', {
+      workingDirectory: '/work/b',
+      urls: { ...urls, docs: 'https://docs/v2' },
+    });
+    await run('b', configSyncPull);
+
+    expect(readMachineConfig('b').urls).toEqual({ docs: 'https://docs/v2', mail: urls.mail });
+    expect(warnings()).toEqual([expect.stringContaining('urls.docs')]);
+
+    // Pushing publishes the kept edit, and the deleting machine picks it up again
+    await run('b', configSyncPush);
+    await run('a', configSyncPull);
+    expect(readMachineConfig('a').urls).toEqual({ docs: 'https://docs/v2', mail: urls.mail });
+  });
+
+  it('keeps the local deletion when the other machine edited the key', async () => {
+    const urls = { docs: 'https://docs', mail: 'https://mail' };
+    writeMachineConfig('a', { workingDirectory: '/work/a', urls });
+    writeMachineConfig('b', { workingDirectory: '/work/b', urls });
+    await run('a', () => configSyncInit(remote));
+    await run('b', () => configSyncInit(remote));
+
+    writeMachineConfig('a', {
+      workingDirectory: '/work/a',
+      urls: { ...urls, docs: 'https://docs/v2' },
+    });
+    await run('a', configSyncPush);
+    writeMachineConfig('b', { workingDirectory: '/work/b', urls: { mail: urls.mail } });
+    await run('b', configSyncPull);
+
+    expect(readMachineConfig('b').urls).toEqual({ mail: urls.mail });
+    expect(warnings()).toEqual([expect.stringContaining('urls.docs')]);
+  });
+});
@@ -0,0 +1,63 @@
+import { mkdirSync, mkdtempSync, realpathSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { $ } from 'zx';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { scanGitRepositories } from '../../src/discovery/scanner.js';
+
+let root: string;
+
+beforeEach(async () => {
+  // git records real paths, and the temp folder is a symlink on macOS
+  root = realpathSync(mkdtempSync(join(tmpdir(), 'ai-scanner-')));
+  mkdirSync(join(root, 'work', 'team'), { recursive: true });
+  mkdirSync(join(root, 'elsewhere'));
+
+  const repo = join(root, 'work', 'team', 'api');
+  await $`git init --quiet --initial-branch=main ${repo}`.quiet();
+  await $`git -C ${repo} -c user.name=test -c user.email=test@example.com commit --quiet --allow-empty -m init`.quiet();
+  await $`git -C ${repo} worktree add --quiet ${join(root, 'work', 'team', 'api-fix')} -b fix`.quiet();
+  await $`git -C ${repo} worktree add --quiet ${join(root, 'elsewhere', 'api-feature')} -b feature`.quiet();
+});
+
+afterEach(() => {
+  rmSync(root, { recursive: true, force: true });
+});
+
+describe('scanGitRepositories', () => {
+  it('lists linked worktrees inside and outside the working directory under their main checkout', async () => {
+    const { repos } = await scanGitRepositories(join(root, 'work'));
+
+    expect(
+      repos.map(({ name, topLevelFolder, worktreeOf }) => ({ name, topLevelFolder, worktreeOf }))
+    ).toEqual([
+      {
+        name: 'api-feature',
+        topLevelFolder: 'team',
+        worktreeOf: join(root, 'work', 'team', 'api'),
+      },
+      { name: 'api', topLevelFolder: 'team', worktreeOf: undefined },
+      { name: 'api-fix', topLevelFolder: 'team', worktreeOf: join(root, 'work', 'team', 'api') },
+    ]);
+  });
+
+  it('lists initialized submodules under their superproject, with their own remote', async () => {
+    const lib = join(root, 'elsewhere', 'lib');
+    const app = join(root, 'work', 'team', 'app');
+    const git = ['-c', 'user.name=test', '-c', 'user.email=test@example.com'];
+    await $`git init --quiet --initial-branch=main ${lib}`.quiet();
+    await $`git -C ${lib} ${git} commit --quiet --allow-empty -m init`.quiet();
+    await $`git init --quiet --initial-branch=main ${app}`.quiet();
+    await $`git -C ${app} -c protocol.file.allow=always submodule --quiet add ${lib} vendor/lib`.quiet();
+    await $`git -C ${app} ${git} commit --quiet -m lib`.quiet();
+
+    const { repos } = await scanGitRepositories(join(root, 'work'));
+
+    expect(repos.find((repo) => repo.path === join(app, 'vendor', 'lib'))).toMatchObject({
+      name: 'lib',
+      topLevelFolder: 'team',
+      submoduleOf: app,
+      metadata: { remote: 'elsewhere/lib' },
+    });
+  });
+});
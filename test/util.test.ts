@@ -0,0 +1,76 @@
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { homedir, tmpdir } from 'os';
+import { join } from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { ConfigValidationError } from '../src/config/schema.js';
+import { getWorkingDirectories, setConfigPathOverride, updateConfig } from '../src/util.js';
+import type { HshConfig } from '../src/types/index.js';
+
+describe('getWorkingDirectories', () => {
+  it('lists workingDirectory first, then workingDirectories, without duplicates', () => {
+    const config = {
+      workingDirectory: '~/dev',
+      workingDirectories: ['/work', { path: '/mnt/src', label: 'nas' }, '~/dev'],
+    } as HshConfig;
+
+    expect(getWorkingDirectories(config)).toEqual([
+      { path: join(homedir(), 'dev'), label: 'dev' },
+      { path: '/work', label: 'work' },
+      { path: '/mnt/src', label: 'nas' },
+    ]);
+  });
+
+  it('skips entries that are neither paths nor objects with a path', () => {
+    const config = {
+      workingDirectory: 5,
+      workingDirectories: [null, 7, {}, { path: 3 }, '', { path: '/work', label: 2 }],
+    } as unknown as HshConfig;
+
+    expect(getWorkingDirectories(config)).toEqual([{ path: '/work', label: 'work' }]);
+  });
+
+  it('does not spread a string workingDirectories into characters', () => {
+    const config = { workingDirectories: 'abc' } as unknown as HshConfig;
+
+    expect(getWorkingDirectories(config)).toEqual([]);
+  });
+});
+
+describe('updateConfig', () => {
+  let dir: string;
+  let configPath: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'ai-update-config-'));
+    configPath = join(dir, 'config.json');
+    writeFileSync(configPath, JSON.stringify({ version: 1, urls: { docs: 'https://docs' } }));
+    setConfigPathOverride(configPath);
+  });
+
+  afterEach(() => {
+    setConfigPathOverride(undefined);
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('saves a valid change', () => {
+    updateConfig((config) => {
+      config.urls.mail = 'https://mail';
+    });
+
+    expect(JSON.parse(readFileSync(configPath, 'utf-8')).urls).toEqual({
+      docs: 'https://docs',
+      mail: 'https://mail',
+    });
+  });
+
+  it('throws without writing when the result would not validate', () => {
+    const before = readFileSync(configPath, 'utf-8');
+
+    expect(() =>
+      updateConfig((config) => {
+        (config as unknown as Record<string, unknown>).workingDirectory = 5;
+      })
+    ).toThrow(ConfigValidationError);
+    expect(readFileSync(configPath, 'utf-8')).toBe(before);
+  });
+});